@@ -183,6 +183,9 @@ export class AssetManager {
             }
           });
 
+          // Lets scenes save entities by the URL their model came from
+          model.userData.assetUrl = url;
+
           // Store the model in the cache
           this.models.set(url, model.clone());
 
@@ -1,22 +1,74 @@
+import type { Entity } from "./Entity";
+import type { Scene } from "./Scene";
+import type {
+  PhysicsCollisionEvent,
+  PhysicsTriggerEvent,
+} from "../physics/types";
+
 /**
  * Base interface for all components in the entity system
  */
 export interface Component {
   /**
    * Called when the component is added to an entity
+   * @param entity The entity the component was added to
    */
-  onAttach?(): void;
+  onAttach?(entity: Entity): void;
 
   /**
    * Called when the component is removed from an entity
+   * @param entity The entity the component was removed from
+   */
+  onDetach?(entity: Entity): void;
+
+  /**
+   * Called when the component's entity joins a scene, or when the component
+   * is added to an entity that is already in one
+   * @param scene The scene
+   */
+  onAddedToScene?(scene: Scene): void;
+
+  /**
+   * Called when the component's entity leaves its scene, or when the
+   * component is removed from an entity that is still in one
+   * @param scene The scene
    */
-  onDetach?(): void;
+  onRemovedFromScene?(scene: Scene): void;
 
   /**
    * Called on each frame to update the component
    * @param dt Delta time in seconds
    */
   update?(dt: number): void;
+
+  /**
+   * Called when the entity's physics body starts or stops touching another body
+   * @param event The collision event, with the entity's own body as bodyA
+   * @param other The entity that owns the other body, if any
+   */
+  onCollision?(event: PhysicsCollisionEvent, other?: Entity): void;
+
+  /**
+   * Called when the entity's physics body enters or leaves a trigger,
+   * or when another body enters or leaves the entity's own trigger
+   * @param event The trigger event
+   * @param other The entity on the other side of the overlap, if any
+   */
+  onTrigger?(event: PhysicsTriggerEvent, other?: Entity): void;
+
+  /**
+   * Gets the component's state for saving with a scene or prefab
+   * Only components registered with registerComponent are saved
+   * @returns JSON-compatible data passed back to deserialize when loading
+   */
+  serialize?(): unknown;
+
+  /**
+   * Restores the component's state when loading a scene or prefab
+   * Called after construction and before the component is added to its entity
+   * @param data The data returned by serialize, with any prefab overrides
+   */
+  deserialize?(data: unknown): void;
 }
 
 /**
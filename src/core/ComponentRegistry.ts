@@ -0,0 +1,49 @@
+import type { Component, ComponentConstructor } from "./Component";
+
+/** Registered component types indexed by their saved name */
+const typesByName: Map<string, ComponentConstructor> = new Map();
+
+/** Saved names indexed by component type */
+const namesByType: Map<ComponentConstructor, string> = new Map();
+
+/**
+ * Registers a component type so it can be saved and loaded with a scene
+ * Registered components are created without constructor arguments when
+ * loading, then given their saved data through deserialize
+ * @param componentConstructor The component constructor
+ * @param name Name to save the component under; set this if class names are
+ * minified in production builds (defaults to the class name)
+ */
+export function registerComponent<T extends Component>(
+  componentConstructor: ComponentConstructor<T>,
+  name: string = componentConstructor.name
+): void {
+  const existing = typesByName.get(name);
+  if (existing && existing !== componentConstructor) {
+    console.warn(`Component name ${name} is already registered. Replacing.`);
+    namesByType.delete(existing);
+  }
+
+  typesByName.set(name, componentConstructor);
+  namesByType.set(componentConstructor, name);
+}
+
+/**
+ * Gets a registered component type by its saved name
+ * @param name The saved name
+ * @returns The component constructor or undefined if not registered
+ */
+export function getComponentType(
+  name: string
+): ComponentConstructor | undefined {
+  return typesByName.get(name);
+}
+
+/**
+ * Gets the saved name of a component's type
+ * @param component The component
+ * @returns The saved name or undefined if the type isn't registered
+ */
+export function getComponentTypeName(component: Component): string | undefined {
+  return namesByType.get(component.constructor as ComponentConstructor);
+}
@@ -1,5 +1,16 @@
 import * as THREE from "three";
 import { Component, ComponentConstructor } from "./Component";
+import type { Scene } from "./Scene";
+import type { PhysicsWorld } from "../physics/PhysicsWorld";
+import {
+  PhysicsCollisionEvent,
+  PhysicsObjectOptions,
+  PhysicsTriggerEvent,
+} from "../physics/types";
+
+/** Scratch objects for transform conversions */
+const tempMatrix = new THREE.Matrix4();
+const tempQuaternion = new THREE.Quaternion();
 
 /**
  * Represents a game entity with components
@@ -11,12 +22,43 @@ export class Entity {
   /** The Three.js object associated with this entity */
   mesh?: THREE.Object3D;
 
-  /** The physics body ID in the physics system */
-  physicsId?: number;
+  /** The physics body ID, backing physicsId */
+  private bodyId?: number;
+
+  /**
+   * Options the physics body was created with, saved with the scene
+   * Set by createBody; shape buffers may be transferred to the worker by
+   * PhysicsWorld.addObject, so this must be a copy
+   */
+  physicsOptions?: PhysicsObjectOptions;
+
+  /**
+   * URL of the model the mesh was loaded from, saved with the scene
+   * Meshes from AssetManager.loadModel are saved with their URL without it
+   */
+  assetUrl?: string;
+
+  /** The scene this entity is in; set by the scene when the entity joins it */
+  scene?: Scene;
+
+  /**
+   * The scene this entity is queued to join on its next update; set by the
+   * scene, so children added meanwhile are queued too
+   */
+  pendingScene?: Scene;
+
+  /** The entity this entity is a child of, if any */
+  parent?: Entity;
+
+  /** Child entities, in the order they were added */
+  private childEntities: Entity[] = [];
 
   /** Map of components indexed by their constructor name */
   private components: Map<string, Component> = new Map();
 
+  /** Handlers called whenever a component is added or removed */
+  private componentListeners: Set<(entity: Entity) => void> = new Set();
+
   /** Whether this entity is marked for deletion */
   isDestroyed = false;
 
@@ -29,6 +71,44 @@ export class Entity {
     this.mesh = mesh;
   }
 
+  /**
+   * The physics body ID in the physics system
+   * Setting it while the entity is in a scene routes the body's collisions
+   * and triggers to this entity
+   */
+  get physicsId(): number | undefined {
+    return this.bodyId;
+  }
+
+  set physicsId(id: number | undefined) {
+    const previous = this.bodyId;
+    if (id === previous) return;
+
+    this.bodyId = id;
+    this.scene?.bodyChanged(this, previous);
+  }
+
+  /**
+   * Creates a physics body for the mesh and records its options, so the body
+   * is saved with the scene
+   * @param physics The physics world, usually the scene's
+   * @param options The body options; arrays owning their whole buffer are
+   * transferred to the worker, and a copy is kept
+   * @returns The body ID
+   */
+  createBody(physics: PhysicsWorld, options: PhysicsObjectOptions): number {
+    if (!this.mesh) {
+      throw new Error(`Entity ${this.name} needs a mesh for a physics body`);
+    }
+    if (this.physicsId !== undefined) {
+      throw new Error(`Entity ${this.name} already has a physics body`);
+    }
+
+    this.physicsOptions = structuredClone(options);
+    this.physicsId = physics.addObject(this.mesh, options);
+    return this.physicsId;
+  }
+
   /**
    * Adds a component to this entity
    * @param componentInstance The component to add
@@ -46,9 +126,13 @@ export class Entity {
     this.components.set(name, componentInstance);
 
     if (componentInstance.onAttach) {
-      componentInstance.onAttach();
+      componentInstance.onAttach(this);
+    }
+    if (this.scene && componentInstance.onAddedToScene) {
+      componentInstance.onAddedToScene(this.scene);
     }
 
+    this.notifyComponentsChanged();
     return componentInstance;
   }
 
@@ -74,6 +158,14 @@ export class Entity {
     return this.components.has(componentConstructor.name);
   }
 
+  /**
+   * Gets all components
+   * @returns An array of all components, in the order they were added
+   */
+  getAllComponents(): Component[] {
+    return Array.from(this.components.values());
+  }
+
   /**
    * Removes a component from this entity
    * @param componentConstructor The component constructor
@@ -86,15 +178,239 @@ export class Entity {
     const component = this.components.get(name);
 
     if (component) {
+      if (this.scene && component.onRemovedFromScene) {
+        component.onRemovedFromScene(this.scene);
+      }
       if (component.onDetach) {
-        component.onDetach();
+        component.onDetach(this);
       }
-      return this.components.delete(name);
+      this.components.delete(name);
+      this.notifyComponentsChanged();
+      return true;
     }
 
     return false;
   }
 
+  /**
+   * Registers a handler called whenever a component is added or removed
+   * @param handler The handler, called with this entity
+   * @returns A function that removes the handler
+   */
+  onComponentsChanged(handler: (entity: Entity) => void): () => void {
+    this.componentListeners.add(handler);
+    return () => {
+      this.componentListeners.delete(handler);
+    };
+  }
+
+  /**
+   * Calls the component change handlers
+   */
+  private notifyComponentsChanged(): void {
+    this.componentListeners.forEach((handler) => handler(this));
+  }
+
+  /**
+   * Child entities, in the order they were added
+   */
+  get children(): readonly Entity[] {
+    return this.childEntities;
+  }
+
+  /**
+   * Makes an entity a child of this one, removing it from its old parent
+   * The child's mesh is parented to this entity's mesh unless the child has a
+   * physics body, since bodies are simulated in world space
+   * If this entity is in a scene, or queued to join one, the child joins it
+   * too; a child in a scene this entity isn't in leaves that scene
+   * @param child The entity to add
+   * @param keepWorldTransform Whether the child's mesh keeps its world
+   * transform, rather than its local transform becoming relative to this one
+   * @returns The child
+   */
+  addChild(child: Entity, keepWorldTransform = false): Entity {
+    if (child === this || this.isDescendantOf(child)) {
+      throw new Error(
+        `Cannot add entity ${child.name} as a child of ${this.name}: it would create a cycle`
+      );
+    }
+
+    if (child.parent === this) return child;
+    child.parent?.removeChild(child);
+
+    const scene = this.scene ?? this.pendingScene;
+    const childScene = child.scene ?? child.pendingScene;
+    if (childScene && childScene !== scene) {
+      childScene.removeEntity(child);
+    }
+
+    child.parent = this;
+    this.childEntities.push(child);
+
+    if (this.mesh && child.mesh && child.physicsId === undefined) {
+      if (keepWorldTransform) {
+        this.mesh.attach(child.mesh);
+      } else {
+        this.mesh.add(child.mesh);
+      }
+    }
+
+    if (scene && childScene !== scene) {
+      scene.addEntity(child);
+    }
+
+    return child;
+  }
+
+  /**
+   * Detaches a child entity, keeping its mesh where it is in the world
+   * The child stays in the scene, as a root entity
+   * @param child The entity to remove
+   * @returns True if the entity was a child of this one
+   */
+  removeChild(child: Entity): boolean {
+    const index = this.childEntities.indexOf(child);
+    if (index < 0) return false;
+
+    this.childEntities.splice(index, 1);
+    child.parent = undefined;
+
+    if (this.mesh && child.mesh && child.mesh.parent === this.mesh) {
+      if (this.scene) {
+        this.scene.threeScene.attach(child.mesh);
+      } else {
+        this.mesh.updateWorldMatrix(true, false);
+        child.mesh.applyMatrix4(this.mesh.matrixWorld);
+        this.mesh.remove(child.mesh);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Checks whether this entity is below another in the hierarchy
+   * @param ancestor The possible ancestor
+   */
+  isDescendantOf(ancestor: Entity): boolean {
+    for (let entity = this.parent; entity; entity = entity.parent) {
+      if (entity === ancestor) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Gets the mesh position relative to its parent
+   * Entities without a mesh have no transform of their own, so this is zero
+   * @param target Vector to store the result in
+   */
+  getLocalPosition(target = new THREE.Vector3()): THREE.Vector3 {
+    return this.mesh ? target.copy(this.mesh.position) : target.set(0, 0, 0);
+  }
+
+  /**
+   * Sets the mesh position relative to its parent
+   * @param position The local position
+   */
+  setLocalPosition(position: THREE.Vector3): void {
+    if (!this.mesh) return;
+    this.mesh.position.copy(position);
+    this.syncBodyTransform();
+  }
+
+  /**
+   * Gets the mesh rotation relative to its parent
+   * Entities without a mesh have no transform of their own, so this is identity
+   * @param target Quaternion to store the result in
+   */
+  getLocalQuaternion(target = new THREE.Quaternion()): THREE.Quaternion {
+    return this.mesh ? target.copy(this.mesh.quaternion) : target.identity();
+  }
+
+  /**
+   * Sets the mesh rotation relative to its parent
+   * @param quaternion The local rotation
+   */
+  setLocalQuaternion(quaternion: THREE.Quaternion): void {
+    if (!this.mesh) return;
+    this.mesh.quaternion.copy(quaternion);
+    this.syncBodyTransform();
+  }
+
+  /**
+   * Gets the world position of the mesh, or of the nearest ancestor with one
+   * @param target Vector to store the result in
+   */
+  getWorldPosition(target = new THREE.Vector3()): THREE.Vector3 {
+    if (this.mesh) return this.mesh.getWorldPosition(target);
+    return this.parent
+      ? this.parent.getWorldPosition(target)
+      : target.set(0, 0, 0);
+  }
+
+  /**
+   * Moves the mesh to a world position, whatever its parent
+   * Entities with a physics body are teleported too
+   * @param position The world position
+   */
+  setWorldPosition(position: THREE.Vector3): void {
+    if (!this.mesh) return;
+
+    this.mesh.position.copy(position);
+    if (this.mesh.parent) {
+      this.mesh.parent.updateWorldMatrix(true, false);
+      this.mesh.parent.worldToLocal(this.mesh.position);
+    }
+    this.syncBodyTransform();
+  }
+
+  /**
+   * Gets the world rotation of the mesh, or of the nearest ancestor with one
+   * @param target Quaternion to store the result in
+   */
+  getWorldQuaternion(target = new THREE.Quaternion()): THREE.Quaternion {
+    if (this.mesh) return this.mesh.getWorldQuaternion(target);
+    return this.parent
+      ? this.parent.getWorldQuaternion(target)
+      : target.identity();
+  }
+
+  /**
+   * Turns the mesh to a world rotation, whatever its parent
+   * Entities with a physics body are teleported too
+   * @param quaternion The world rotation
+   */
+  setWorldQuaternion(quaternion: THREE.Quaternion): void {
+    if (!this.mesh) return;
+
+    if (this.mesh.parent) {
+      // local = inverse(parent world) * world
+      this.mesh.parent.updateWorldMatrix(true, false);
+      tempMatrix.extractRotation(this.mesh.parent.matrixWorld);
+      tempQuaternion.setFromRotationMatrix(tempMatrix).invert();
+      this.mesh.quaternion.multiplyQuaternions(tempQuaternion, quaternion);
+    } else {
+      this.mesh.quaternion.copy(quaternion);
+    }
+    this.syncBodyTransform();
+  }
+
+  /**
+   * Teleports the physics body to the mesh's world transform
+   */
+  private syncBodyTransform(): void {
+    if (this.physicsId === undefined || !this.scene || !this.mesh) return;
+
+    const position = this.mesh.getWorldPosition(new THREE.Vector3());
+    const quaternion = this.mesh.getWorldQuaternion(new THREE.Quaternion());
+    this.scene.physics.setPosition(this.physicsId, position.toArray());
+    this.scene.physics.setRotation(
+      this.physicsId,
+      quaternion.toArray() as [number, number, number, number]
+    );
+  }
+
   /**
    * Updates all components that have an update method
    * @param dt Delta time in seconds
@@ -108,9 +424,66 @@ export class Entity {
   }
 
   /**
-   * Marks this entity for deletion
+   * Records the scene this entity joined and tells its components
+   * Called by the scene
+   * @param scene The scene
+   */
+  addedToScene(scene: Scene): void {
+    this.scene = scene;
+    this.components.forEach((component) => {
+      if (component.onAddedToScene) {
+        component.onAddedToScene(scene);
+      }
+    });
+  }
+
+  /**
+   * Tells this entity's components it left its scene and clears the scene
+   * Called by the scene
+   */
+  removedFromScene(): void {
+    const scene = this.scene;
+    if (!scene) return;
+
+    this.components.forEach((component) => {
+      if (component.onRemovedFromScene) {
+        component.onRemovedFromScene(scene);
+      }
+    });
+    this.scene = undefined;
+  }
+
+  /**
+   * Forwards a collision event to all components that handle collisions
+   * @param event The collision event, with this entity's body as bodyA
+   * @param other The entity that owns the other body, if any
+   */
+  handleCollision(event: PhysicsCollisionEvent, other?: Entity): void {
+    this.components.forEach((component) => {
+      if (component.onCollision) {
+        component.onCollision(event, other);
+      }
+    });
+  }
+
+  /**
+   * Forwards a trigger event to all components that handle triggers
+   * @param event The trigger event
+   * @param other The entity on the other side of the overlap, if any
+   */
+  handleTrigger(event: PhysicsTriggerEvent, other?: Entity): void {
+    this.components.forEach((component) => {
+      if (component.onTrigger) {
+        component.onTrigger(event, other);
+      }
+    });
+  }
+
+  /**
+   * Marks this entity and all of its descendants for deletion
    */
   destroy(): void {
     this.isDestroyed = true;
+    this.childEntities.forEach((child) => child.destroy());
   }
 }
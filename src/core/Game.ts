@@ -2,6 +2,7 @@ import * as THREE from "three";
 import { Scene } from "./Scene";
 import { AssetManager } from "./AssetManager";
 import { InputManager } from "./Input";
+import { SceneManager, SceneTransition } from "./SceneManager";
 
 /**
  * Game configuration options
@@ -17,6 +18,8 @@ export interface GameOptions {
   physicsDebug?: boolean;
   /** Whether to start the game automatically */
   autoStart?: boolean;
+  /** Initial simulation speed multiplier (defaults to 1) */
+  timeScale?: number;
 }
 
 /**
@@ -29,24 +32,33 @@ export class Game {
   /** THREE.js renderer */
   renderer: THREE.WebGLRenderer;
 
-  /** Current active scene */
-  currentScene?: Scene;
-
   /** Asset manager */
   assets: AssetManager;
 
+  /** Scene stack */
+  scenes: SceneManager;
+
   /** Input manager */
   input: InputManager;
 
   /** Clock for timing */
   clock: THREE.Clock;
 
+  /** Simulation speed multiplier (0.5 for half speed, 2 for double) */
+  timeScale: number;
+
   /** Animation frame request ID */
   private animationId: number = 0;
 
   /** Whether the game is currently running */
   private running: boolean = false;
 
+  /** Whether the simulation is paused (rendering continues) */
+  private paused: boolean = false;
+
+  /** Single steps requested while paused */
+  private pendingSteps: number = 0;
+
   /**
    * Creates a new game
    * @param options Game configuration options
@@ -77,11 +89,13 @@ export class Game {
 
     // Create managers
     this.assets = new AssetManager();
+    this.scenes = new SceneManager(this.assets);
     this.input = new InputManager(this.renderer.domElement);
     this.input.initialize();
 
     // Create clock for timing
     this.clock = new THREE.Clock();
+    this.timeScale = options.timeScale ?? 1;
 
     // Setup resize handling
     window.addEventListener("resize", this.handleResize);
@@ -93,20 +107,23 @@ export class Game {
   }
 
   /**
-   * Sets the active scene
-   * @param scene The scene to set as active
+   * Current active scene, at the top of the scene stack
    */
-  setScene(scene: Scene): void {
-    // Clean up old scene if exists
-    if (this.currentScene) {
-      this.currentScene.dispose();
-    }
-
-    // Set new scene
-    this.currentScene = scene;
+  get currentScene(): Scene | undefined {
+    return this.scenes.current;
+  }
 
-    // Initialize the scene
-    scene.initialize();
+  /**
+   * Preloads a scene and makes it the only active one, disposing the others
+   * Use scenes.push and scenes.pop for overlays such as pause menus
+   * The scene becomes currentScene once the returned promise resolves, not
+   * when this returns
+   * @param scene The scene to set as active
+   * @param transition How to switch to the scene (defaults to immediately)
+   * @returns Promise that resolves once the scene is shown
+   */
+  setScene(scene: Scene, transition?: SceneTransition): Promise<void> {
+    return this.scenes.set(scene, transition);
   }
 
   /**
@@ -135,6 +152,38 @@ export class Game {
     }
   }
 
+  /**
+   * Whether the simulation is paused
+   */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Pauses the simulation while rendering and input keep running
+   * The scene, physics and components are updated with a delta of 0
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * Resumes a paused simulation
+   */
+  resume(): void {
+    this.paused = false;
+    this.pendingSteps = 0;
+  }
+
+  /**
+   * Advances a paused simulation by exactly one physics step
+   * The step runs on the next frame, ignoring the time scale
+   */
+  stepOnce(): void {
+    this.pause();
+    this.pendingSteps++;
+  }
+
   /**
    * Main animation loop
    */
@@ -143,30 +192,39 @@ export class Game {
 
     this.animationId = requestAnimationFrame(this.animate);
 
-    // Get delta time
-    const dt = this.clock.getDelta();
+    // Get delta time, scaled and frozen as requested
+    const realDt = this.clock.getDelta();
+    const dt = this.getSimulationDelta(realDt);
 
     // Update input
     this.input.update();
 
-    // Update current scene
-    if (this.currentScene) {
-      this.currentScene.update(dt);
-
-      // Render scene
-      this.renderer.render(
-        this.currentScene.threeScene,
-        this.getActiveCamera()
-      );
-    }
+    // Update the top scene, then render the visible ones
+    this.scenes.update(dt, realDt);
+    this.scenes.render(this.renderer, this.getActiveCamera);
   };
 
   /**
-   * Gets the active camera from the current scene
+   * Converts real elapsed time into simulated time for this frame
+   * @param realDt Real delta time in seconds
    */
-  private getActiveCamera(): THREE.Camera {
-    if (this.currentScene && this.currentScene.threeScene.camera) {
-      return this.currentScene.threeScene.camera;
+  private getSimulationDelta(realDt: number): number {
+    if (!this.paused) return realDt * this.timeScale;
+    if (this.pendingSteps === 0 || !this.currentScene) return 0;
+
+    this.pendingSteps--;
+    return this.currentScene.physics.timeStep;
+  }
+
+  /**
+   * Gets the camera to render a scene with
+   * @param scene The scene (defaults to the current scene)
+   */
+  private getActiveCamera = (
+    scene: Scene | undefined = this.currentScene
+  ): THREE.Camera => {
+    if (scene && scene.threeScene.camera) {
+      return scene.threeScene.camera;
     }
 
     // Return a default camera if none is set
@@ -180,7 +238,7 @@ export class Game {
     camera.lookAt(0, 0, 0);
 
     return camera;
-  }
+  };
 
   /**
    * Handles window resize events
@@ -189,12 +247,14 @@ export class Game {
     // Update renderer size
     this.renderer.setSize(window.innerWidth, window.innerHeight);
 
-    // Update camera aspect ratio
-    const camera = this.getActiveCamera();
-    if (camera instanceof THREE.PerspectiveCamera) {
-      camera.aspect = window.innerWidth / window.innerHeight;
-      camera.updateProjectionMatrix();
-    }
+    // Update camera aspect ratios
+    this.scenes.scenes.forEach((scene) => {
+      const camera = this.getActiveCamera(scene);
+      if (camera instanceof THREE.PerspectiveCamera) {
+        camera.aspect = window.innerWidth / window.innerHeight;
+        camera.updateProjectionMatrix();
+      }
+    });
   };
 
   /**
@@ -208,10 +268,8 @@ export class Game {
     // Remove event listeners
     window.removeEventListener("resize", this.handleResize);
 
-    // Dispose of current scene
-    if (this.currentScene) {
-      this.currentScene.dispose();
-    }
+    // Dispose of all scenes
+    this.scenes.dispose();
 
     // Dispose of managers
     this.input.dispose();
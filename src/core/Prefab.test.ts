@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import { Scene } from "./Scene";
+import { Prefab } from "./Prefab";
+import { registerComponent } from "./ComponentRegistry";
+import type { Component } from "./Component";
+import {
+  PhysicsShapeType,
+  PhysicsWorkerIncomingMessage,
+} from "../physics/types";
+
+// Run the physics simulation in-process in place of the web worker
+vi.mock("../workers/physics.worker.ts?worker", async () => {
+  const { PhysicsSimulation } = await import("../workers/PhysicsSimulation");
+
+  return {
+    default: class {
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+
+      private simulation = new PhysicsSimulation((message) => {
+        this.onmessage?.({ data: message });
+      });
+
+      postMessage(message: PhysicsWorkerIncomingMessage): void {
+        this.simulation.handleMessage(message);
+      }
+
+      terminate(): void {}
+    },
+  };
+});
+
+class Health implements Component {
+  current = 100;
+  max = 100;
+
+  serialize(): unknown {
+    return { current: this.current, max: this.max };
+  }
+
+  deserialize(data: unknown): void {
+    Object.assign(this, data);
+  }
+}
+registerComponent(Health, "PrefabHealth");
+
+// A crate with a body and some health
+const crate = new Prefab({
+  name: "Crate",
+  mesh: {
+    position: [0, 0, 0],
+    quaternion: [0, 0, 0, 1],
+    scale: [1, 1, 1],
+  },
+  physics: {
+    type: PhysicsShapeType.BOX,
+    size: [1, 1, 1],
+    mass: 5,
+    position: [0, 0, 0],
+  },
+  components: [{ type: "PrefabHealth", data: { current: 100, max: 100 } }],
+});
+
+describe("Prefab", () => {
+  it("merges overrides over the prefab's data", async () => {
+    const scene = new Scene();
+    const entity = await crate.instantiate(scene, {
+      name: "Heavy crate",
+      position: [4, 5, 6],
+      physics: { mass: 50 },
+      components: { PrefabHealth: { current: 30 } },
+    });
+
+    expect(entity.name).toBe("Heavy crate");
+    expect(scene.getEntity(entity.id)).toBe(entity);
+    expect(entity.mesh!.position.toArray()).toEqual([4, 5, 6]);
+    expect(entity.physicsOptions).toMatchObject({
+      type: PhysicsShapeType.BOX,
+      size: [1, 1, 1],
+      mass: 50,
+      position: [4, 5, 6],
+    });
+    // Only the overridden field changes
+    expect(entity.getComponent(Health)).toMatchObject({
+      current: 30,
+      max: 100,
+    });
+  });
+
+  it("leaves the prefab itself unchanged", async () => {
+    const scene = new Scene();
+    await crate.instantiate(scene, {
+      physics: { mass: 50 },
+      components: { PrefabHealth: { current: 30 } },
+    });
+
+    const entity = await crate.instantiate(scene);
+    expect(entity.physicsOptions!.mass).toBe(5);
+    expect(entity.getComponent(Health)!.current).toBe(100);
+  });
+});
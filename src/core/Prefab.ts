@@ -0,0 +1,122 @@
+import type { Entity } from "./Entity";
+import type { Scene } from "./Scene";
+import type { AssetManager } from "./AssetManager";
+import {
+  EntityData,
+  PhysicsOptionsData,
+  deserializeEntity,
+  serializeEntity,
+} from "./serialization";
+
+/**
+ * Per-instance changes to a prefab
+ */
+export interface PrefabOverrides {
+  name?: string;
+  /** Local position of the root; world space if it has a physics body */
+  position?: [number, number, number];
+  quaternion?: [number, number, number, number];
+  scale?: [number, number, number];
+  /** Physics options merged over the prefab's */
+  physics?: Partial<PhysicsOptionsData>;
+  /**
+   * Component data indexed by registered component name, merged over the
+   * root's saved data when both are plain objects and replacing it otherwise
+   */
+  components?: Record<string, unknown>;
+}
+
+/**
+ * Checks whether a value is a plain object that overrides can merge into
+ * @param value The value
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * A reusable entity template, e.g. a crate or an enemy, that can be
+ * instantiated many times
+ */
+export class Prefab {
+  /**
+   * Creates a prefab from saved entity data, e.g. from a JSON file
+   * @param data The saved entity, including any children
+   */
+  constructor(readonly data: EntityData) {}
+
+  /**
+   * Creates a prefab from an existing entity and its descendants
+   * @param entity The entity to copy
+   */
+  static fromEntity(entity: Entity): Prefab {
+    return new Prefab(serializeEntity(entity));
+  }
+
+  /**
+   * Creates a new instance of the prefab and adds it to a scene
+   * @param scene The scene to add the instance to
+   * @param overrides Changes for this instance
+   * @param assets Asset manager to load models with; required if any mesh has a URL
+   * @returns The root entity of the instance
+   */
+  async instantiate(
+    scene: Scene,
+    overrides: PrefabOverrides = {},
+    assets?: AssetManager
+  ): Promise<Entity> {
+    const data = this.applyOverrides(overrides);
+    const entity = await deserializeEntity(data, scene.physics, assets);
+    scene.addEntity(entity);
+    return entity;
+  }
+
+  /**
+   * Copies the prefab's data with per-instance overrides applied
+   * @param overrides Changes for this instance
+   * @returns The instance's data
+   */
+  private applyOverrides(overrides: PrefabOverrides): EntityData {
+    const data = structuredClone(this.data);
+
+    if (overrides.name !== undefined) data.name = overrides.name;
+
+    if (overrides.position || overrides.quaternion || overrides.scale) {
+      data.mesh = {
+        position: [0, 0, 0],
+        quaternion: [0, 0, 0, 1],
+        scale: [1, 1, 1],
+        ...data.mesh,
+      };
+      if (overrides.position) data.mesh.position = overrides.position;
+      if (overrides.quaternion) data.mesh.quaternion = overrides.quaternion;
+      if (overrides.scale) data.mesh.scale = overrides.scale;
+    }
+
+    if (overrides.physics && data.physics) {
+      data.physics = { ...data.physics, ...overrides.physics };
+    }
+
+    for (const [type, value] of Object.entries(overrides.components ?? {})) {
+      const component = data.components.find((entry) => entry.type === type);
+      if (!component) {
+        console.warn(
+          `Prefab ${data.name} has no component ${type} to override`
+        );
+        continue;
+      }
+
+      component.data =
+        isPlainObject(component.data) && isPlainObject(value)
+          ? { ...component.data, ...value }
+          : value;
+    }
+
+    return data;
+  }
+}
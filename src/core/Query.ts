@@ -0,0 +1,99 @@
+import type { Entity } from "./Entity";
+import type { ComponentConstructor } from "./Component";
+
+/**
+ * A live set of the entities in a scene that have all of a list of components
+ * Queries are created and cached by Scene.query, and kept up to date as
+ * entities are added or removed and components are attached or detached
+ */
+export class Query implements Iterable<Entity> {
+  /** Matching entities, in the order they started matching */
+  private entities: Set<Entity> = new Set();
+
+  /**
+   * Creates a query
+   * @param components The components an entity needs to match
+   */
+  constructor(readonly components: readonly ComponentConstructor[]) {}
+
+  /**
+   * Gets a cache key that is the same for any order of the same components
+   * @param components The components
+   */
+  static keyOf(components: readonly ComponentConstructor[]): string {
+    return components
+      .map((component) => component.name)
+      .sort()
+      .join(",");
+  }
+
+  /**
+   * Number of matching entities
+   */
+  get size(): number {
+    return this.entities.size;
+  }
+
+  /**
+   * Checks whether an entity has all of the query's components
+   * @param entity The entity
+   */
+  matches(entity: Entity): boolean {
+    return this.components.every((component) => entity.hasComponent(component));
+  }
+
+  /**
+   * Checks whether an entity is currently in the query
+   * @param entity The entity
+   */
+  has(entity: Entity): boolean {
+    return this.entities.has(entity);
+  }
+
+  /**
+   * Adds or removes an entity to match its current components
+   * @param entity The entity
+   */
+  refresh(entity: Entity): void {
+    if (this.matches(entity)) {
+      this.entities.add(entity);
+    } else {
+      this.entities.delete(entity);
+    }
+  }
+
+  /**
+   * Removes an entity, e.g. when it leaves the scene
+   * @param entity The entity
+   */
+  remove(entity: Entity): void {
+    this.entities.delete(entity);
+  }
+
+  /**
+   * Removes every entity
+   */
+  clear(): void {
+    this.entities.clear();
+  }
+
+  /**
+   * Calls a function for each matching entity
+   * Entities that stop matching during the loop are skipped
+   * @param callback The function to call
+   */
+  forEach(callback: (entity: Entity) => void): void {
+    this.entities.forEach((entity) => callback(entity));
+  }
+
+  /**
+   * Gets a snapshot of the matching entities
+   */
+  toArray(): Entity[] {
+    return Array.from(this.entities);
+  }
+
+  [Symbol.iterator](): Iterator<Entity> {
+    return this.entities.values();
+  }
+}
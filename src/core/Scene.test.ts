@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from "vitest";
+import { Scene } from "./Scene";
+import { Entity } from "./Entity";
+import type { Component } from "./Component";
+import type { System } from "./System";
+import type { PhysicsWorkerIncomingMessage } from "../physics/types";
+
+// Run the physics simulation in-process in place of the web worker
+vi.mock("../workers/physics.worker.ts?worker", async () => {
+  const { PhysicsSimulation } = await import("../workers/PhysicsSimulation");
+
+  return {
+    default: class {
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+
+      private simulation = new PhysicsSimulation((message) => {
+        this.onmessage?.({ data: message });
+      });
+
+      postMessage(message: PhysicsWorkerIncomingMessage): void {
+        this.simulation.handleMessage(message);
+      }
+
+      terminate(): void {}
+    },
+  };
+});
+
+class Health implements Component {}
+class Armor implements Component {}
+
+// A system that records when it runs
+const recordingSystem = (
+  name: string,
+  log: string[],
+  priority?: number
+): System => ({
+  priority,
+  update: () => {
+    log.push(name);
+  },
+});
+
+describe("Scene", () => {
+  describe("queries", () => {
+    it("follows components as they are added and removed", () => {
+      const scene = new Scene();
+      const query = scene.query(Health, Armor);
+      const entity = scene.addEntity(new Entity("Knight"));
+      expect(query.has(entity)).toBe(false);
+
+      entity.addComponent(new Health());
+      expect(query.has(entity)).toBe(false);
+      entity.addComponent(new Armor());
+      expect(query.toArray()).toEqual([entity]);
+
+      entity.removeComponent(Armor);
+      expect(query.size).toBe(0);
+    });
+
+    it("includes entities that already matched when it was created", () => {
+      const scene = new Scene();
+      const entity = new Entity("Knight");
+      entity.addComponent(new Health());
+      scene.addEntity(entity);
+
+      expect(scene.query(Health).toArray()).toEqual([entity]);
+    });
+
+    it("is shared by every order of the same components", () => {
+      const scene = new Scene();
+      expect(scene.query(Health, Armor)).toBe(scene.query(Armor, Health));
+    });
+
+    it("drops entities that leave the scene", () => {
+      const scene = new Scene();
+      const query = scene.query(Health);
+      const entity = new Entity("Knight");
+      entity.addComponent(new Health());
+      scene.addEntity(entity);
+
+      scene.removeEntity(entity);
+      expect(query.size).toBe(0);
+
+      // Components changing afterwards don't bring it back
+      entity.removeComponent(Health);
+      entity.addComponent(new Health());
+      expect(query.size).toBe(0);
+    });
+  });
+
+  describe("systems", () => {
+    it("runs in ascending priority, then in the order added", () => {
+      const scene = new Scene();
+      const log: string[] = [];
+      scene.addSystem(recordingSystem("late", log, 10));
+      scene.addSystem(recordingSystem("default", log));
+      scene.addSystem(recordingSystem("early", log, -5));
+      scene.addSystem(recordingSystem("default again", log, 0));
+
+      scene.update(0);
+      expect(log).toEqual(["early", "default", "default again", "late"]);
+    });
+
+    it("skips a system removed by an earlier one in the same update", () => {
+      const scene = new Scene();
+      const log: string[] = [];
+      const removed = recordingSystem("removed", log, 1);
+      scene.addSystem({ update: () => scene.removeSystem(removed) });
+      scene.addSystem(removed);
+
+      scene.update(0);
+      expect(log).toEqual([]);
+    });
+  });
+
+  describe("hierarchy", () => {
+    it("adds children along with their parent", () => {
+      const scene = new Scene();
+      const parent = new Entity("Parent");
+      const child = parent.addChild(new Entity("Child"));
+      scene.addEntity(parent);
+
+      expect(scene.getEntity(child.id)).toBe(child);
+      expect(child.scene).toBe(scene);
+    });
+
+    it("removes descendants of a destroyed entity", () => {
+      const scene = new Scene();
+      const parent = new Entity("Parent");
+      const child = parent.addChild(new Entity("Child"));
+      const grandchild = child.addChild(new Entity("Grandchild"));
+      scene.addEntity(parent);
+      scene.initialize();
+
+      parent.destroy();
+      scene.update(0);
+
+      expect(scene.getAllEntities()).toEqual([]);
+      expect(grandchild.isDestroyed).toBe(true);
+      expect(grandchild.scene).toBeUndefined();
+    });
+
+    it("drops queued descendants when a queued entity is removed", () => {
+      const scene = new Scene();
+      scene.initialize();
+      const parent = new Entity("Parent");
+      parent.addChild(new Entity("Child"));
+      scene.addEntity(parent);
+
+      expect(scene.removeEntity(parent)).toBe(true);
+      scene.update(0);
+      expect(scene.getAllEntities()).toEqual([]);
+    });
+
+    it("removes a queued child from the queue and its parent", () => {
+      const scene = new Scene();
+      const parent = scene.addEntity(new Entity("Parent"));
+      scene.initialize();
+
+      // Joins the queue, since the parent is already in the initialized scene
+      const child = parent.addChild(new Entity("Child"));
+      expect(scene.removeEntity(child.id)).toBe(true);
+      scene.update(0);
+
+      expect(child.parent).toBeUndefined();
+      expect(parent.children).toEqual([]);
+      expect(scene.getAllEntities()).toEqual([parent]);
+    });
+
+    it("queues grandchildren added under a queued child", () => {
+      const scene = new Scene();
+      const parent = scene.addEntity(new Entity("Parent"));
+      scene.initialize();
+
+      const child = parent.addChild(new Entity("Child"));
+      const grandchild = child.addChild(new Entity("Grandchild"));
+      expect(scene.removeEntity(grandchild)).toBe(true);
+      scene.update(0);
+
+      expect(child.children).toEqual([]);
+      expect(scene.getAllEntities()).toEqual([parent, child]);
+    });
+
+    it("removes entities moved under a parent outside the scene", () => {
+      const scene = new Scene();
+      const child = scene.addEntity(new Entity("Child"));
+      const grandchild = child.addChild(new Entity("Grandchild"));
+      const outsider = new Entity("Outsider");
+
+      outsider.addChild(child);
+
+      expect(scene.getAllEntities()).toEqual([]);
+      expect(child.scene).toBeUndefined();
+      expect(grandchild.scene).toBeUndefined();
+      expect(child.parent).toBe(outsider);
+    });
+  });
+});
@@ -1,6 +1,17 @@
 import * as THREE from "three";
 import { Entity } from "./Entity";
+import { ComponentConstructor } from "./Component";
+import { Query } from "./Query";
+import { System, SystemConstructor } from "./System";
 import { PhysicsWorld } from "../physics/PhysicsWorld";
+import type { AssetManager } from "./AssetManager";
+import {
+  SCENE_DATA_VERSION,
+  SceneData,
+  deserializeEntities,
+  serializeEntity,
+  validateSceneData,
+} from "./serialization";
 
 /**
  * Manages a collection of entities and the game world
@@ -15,12 +26,33 @@ export class Scene {
   /** Map of entities indexed by their ID */
   private entities: Map<string, Entity> = new Map();
 
+  /** Entities indexed by their physics body ID, for collision lookups */
+  private entitiesByBody: Map<number, Entity> = new Map();
+
+  /** Component handler removers indexed by entity ID */
+  private entityUnsubscribers: Map<string, () => void> = new Map();
+
+  /** Collision and trigger handler removers indexed by entity ID */
+  private bodyUnsubscribers: Map<string, () => void> = new Map();
+
+  /** Systems in update order */
+  private systems: System[] = [];
+
+  /** Cached component queries indexed by their component names */
+  private queries: Map<string, Query> = new Map();
+
   /** Entities that need to be added on the next update */
   private entitiesToAdd: Entity[] = [];
 
   /** Whether the scene has been initialized */
   private isInitialized = false;
 
+  /**
+   * Whether scenes below this one on the stack stay visible under it,
+   * e.g. for a pause menu; give overlays no background
+   */
+  isOverlay = false;
+
   /**
    * Creates a new scene
    * @param enablePhysicsDebug Whether to enable physics debug rendering
@@ -39,21 +71,159 @@ export class Scene {
   }
 
   /**
-   * Adds an entity to the scene
-   * If the scene is already initialized, the entity will be added on the next update
+   * Loads what the scene needs before it is initialized and shown
+   * The previous scene keeps running meanwhile
+   * Override this in derived scenes
+   * @param assets The game's asset manager
+   */
+  async preload(assets: AssetManager): Promise<void> {}
+
+  /**
+   * Called when the scene becomes the top of the stack by being pushed,
+   * or replacing another scene
+   * Override this in derived scenes
+   */
+  onEnter(): void {}
+
+  /**
+   * Called when the scene leaves the stack, before it is disposed
+   * Override this in derived scenes
+   */
+  onExit(): void {}
+
+  /**
+   * Called when another scene is pushed over this one, which stops updating it
+   * Override this in derived scenes
+   */
+  onPause(): void {}
+
+  /**
+   * Called when the scene above this one is popped, so it updates again
+   * Override this in derived scenes
+   */
+  onResume(): void {}
+
+  /**
+   * Adds an entity and its descendants to the scene, along with any of their
+   * meshes that have no parent
+   * If the scene is already initialized, the entities will be added on the next update
    * @param entity The entity to add
    */
   addEntity(entity: Entity): Entity {
     if (this.isInitialized) {
       // If the scene is already initialized, queue the entity to be added
-      this.entitiesToAdd.push(entity);
+      this.queueEntity(entity);
     } else {
       // Otherwise, add it immediately
-      this.entities.set(entity.id, entity);
+      this.registerEntity(entity);
     }
     return entity;
   }
 
+  /**
+   * Queues an entity and its descendants to be registered on the next update,
+   * so each of them can be found and removed until then
+   * @param entity The entity to queue
+   */
+  private queueEntity(entity: Entity): void {
+    if (this.entities.has(entity.id)) return;
+
+    if (entity.pendingScene !== this) {
+      entity.pendingScene = this;
+      this.entitiesToAdd.push(entity);
+    }
+    entity.children.forEach((child) => this.queueEntity(child));
+  }
+
+  /**
+   * Stores an entity, adds its mesh and it to matching queries, routes its
+   * physics collisions and triggers to its components and tells them they
+   * joined the scene
+   * @param entity The entity to register
+   */
+  private registerEntity(entity: Entity): void {
+    // Children can be added both directly and with their parent
+    entity.pendingScene = undefined;
+    if (this.entities.has(entity.id)) return;
+    this.entities.set(entity.id, entity);
+
+    // Meshes already parented, e.g. to another entity's mesh, stay where they are
+    if (entity.mesh && !entity.mesh.parent) {
+      this.threeScene.add(entity.mesh);
+    }
+
+    // Keep queries up to date as the entity's components change
+    this.queries.forEach((query) => query.refresh(entity));
+    const offComponents = entity.onComponentsChanged(() => {
+      this.queries.forEach((query) => query.refresh(entity));
+    });
+    this.entityUnsubscribers.set(entity.id, offComponents);
+
+    this.routeBody(entity);
+
+    entity.addedToScene(this);
+
+    // Register children after their parent, so parents update first
+    entity.children.forEach((child) => this.registerEntity(child));
+  }
+
+  /**
+   * Reroutes collisions and triggers after an entity's physics body changed
+   * Called by the entity
+   * @param entity The entity
+   * @param previousId The body ID the entity had before
+   */
+  bodyChanged(entity: Entity, previousId?: number): void {
+    if (this.entities.get(entity.id) !== entity) return;
+
+    this.unrouteBody(entity, previousId);
+    this.routeBody(entity);
+  }
+
+  /**
+   * Routes the collisions and triggers of an entity's physics body, if it
+   * has one, to its components
+   * @param entity The entity
+   */
+  private routeBody(entity: Entity): void {
+    const physicsId = entity.physicsId;
+    if (physicsId === undefined) return;
+
+    this.entitiesByBody.set(physicsId, entity);
+    const offCollision = this.physics.onCollision(physicsId, (event) => {
+      entity.handleCollision(event, this.entitiesByBody.get(event.bodyB));
+    });
+    const offTrigger = this.physics.onTrigger(physicsId, (event) => {
+      const otherId =
+        event.triggerId === physicsId ? event.otherId : event.triggerId;
+      entity.handleTrigger(event, this.entitiesByBody.get(otherId));
+    });
+    this.bodyUnsubscribers.set(entity.id, () => {
+      offCollision();
+      offTrigger();
+    });
+  }
+
+  /**
+   * Stops routing the collisions and triggers of an entity's physics body
+   * @param entity The entity
+   * @param physicsId The body ID the routing was set up for
+   */
+  private unrouteBody(entity: Entity, physicsId = entity.physicsId): void {
+    const unsubscribe = this.bodyUnsubscribers.get(entity.id);
+    if (unsubscribe) {
+      unsubscribe();
+      this.bodyUnsubscribers.delete(entity.id);
+    }
+
+    if (
+      physicsId !== undefined &&
+      this.entitiesByBody.get(physicsId) === entity
+    ) {
+      this.entitiesByBody.delete(physicsId);
+    }
+  }
+
   /**
    * Gets an entity by its ID
    * @param id The entity ID
@@ -72,15 +242,138 @@ export class Scene {
   }
 
   /**
-   * Removes an entity from the scene
+   * Gets a live query of the entities that have all of the given components
+   * Queries are cached, so asking again for the same components, in any
+   * order, returns the same query
+   * @param components The components an entity needs to match
+   * @returns The query
+   */
+  query(...components: ComponentConstructor[]): Query {
+    const key = Query.keyOf(components);
+    let query = this.queries.get(key);
+
+    if (!query) {
+      query = new Query(components);
+      this.queries.set(key, query);
+      for (const entity of this.entities.values()) {
+        query.refresh(entity);
+      }
+    }
+
+    return query;
+  }
+
+  /**
+   * Adds a system to the scene
+   * @param system The system to add
+   */
+  addSystem<T extends System>(system: T): T {
+    if (this.systems.includes(system)) {
+      console.warn("System already added to the scene");
+      return system;
+    }
+
+    // Insert after every system with the same or a lower priority
+    const priority = system.priority ?? 0;
+    const index = this.systems.findIndex(
+      (other) => (other.priority ?? 0) > priority
+    );
+    if (index < 0) {
+      this.systems.push(system);
+    } else {
+      this.systems.splice(index, 0, system);
+    }
+
+    if (system.onAddedToScene) {
+      system.onAddedToScene(this);
+    }
+
+    return system;
+  }
+
+  /**
+   * Gets a system by its constructor
+   * @param systemConstructor The system constructor
+   * @returns The first system of that type or undefined if not found
+   */
+  getSystem<T extends System>(
+    systemConstructor: SystemConstructor<T>
+  ): T | undefined {
+    return this.systems.find(
+      (system): system is T => system instanceof systemConstructor
+    );
+  }
+
+  /**
+   * Removes a system from the scene
+   * @param system The system to remove
+   * @returns True if the system was removed
+   */
+  removeSystem(system: System): boolean {
+    const index = this.systems.indexOf(system);
+    if (index < 0) return false;
+
+    this.systems.splice(index, 1);
+    if (system.onRemovedFromScene) {
+      system.onRemovedFromScene();
+    }
+    return true;
+  }
+
+  /**
+   * Removes an entity and its descendants from the scene
+   * The entity is detached from its parent, but keeps its own children
    * @param entityOrId The entity or its ID
    * @returns True if the entity was removed
    */
   removeEntity(entityOrId: Entity | string): boolean {
     const id = typeof entityOrId === "string" ? entityOrId : entityOrId.id;
-    const entity = this.entities.get(id);
+    const entity =
+      this.entities.get(id) ??
+      this.entitiesToAdd.find((queued) => queued.id === id);
+    if (!entity) return false;
+
+    // Drop the entity and its descendants from the queue of entities to add
+    this.entitiesToAdd = this.entitiesToAdd.filter((queued) => {
+      if (queued !== entity && !queued.isDescendantOf(entity)) return true;
+      queued.pendingScene = undefined;
+      return false;
+    });
+
+    // Only detach from a parent that stays in the scene, or is queued to
+    const parent = entity.parent;
+    if (
+      parent &&
+      (this.entities.has(parent.id) || parent.pendingScene === this)
+    ) {
+      parent.removeChild(entity);
+    }
+
+    if (!this.entities.has(id)) return true;
+    return this.unregisterEntity(entity);
+  }
+
+  /**
+   * Removes a registered entity and its descendants, leaving the hierarchy intact
+   * @param entity The entity to remove
+   * @returns True if the entity was removed
+   */
+  private unregisterEntity(entity: Entity): boolean {
+    const id = entity.id;
+    entity.children.forEach((child) => this.unregisterEntity(child));
+
+    if (this.entities.has(id)) {
+      entity.removedFromScene();
+
+      // Stop routing collisions and component changes from the entity
+      const unsubscribe = this.entityUnsubscribers.get(id);
+      if (unsubscribe) {
+        unsubscribe();
+        this.entityUnsubscribers.delete(id);
+      }
+      this.unrouteBody(entity);
+      this.queries.forEach((query) => query.remove(entity));
 
-    if (entity) {
       // If the entity has a physics body, remove it
       if (entity.physicsId !== undefined) {
         this.physics.removeObject(entity.physicsId);
@@ -98,27 +391,34 @@ export class Scene {
   }
 
   /**
-   * Updates all entities in the scene
+   * Updates all entities in the scene, then runs systems in priority order
    * Also processes the queue of entities to add and removes destroyed entities
-   * @param dt Delta time in seconds
+   * @param dt Simulated delta time in seconds (scaled by the game, 0 when paused)
    */
   update(dt: number): void {
     // Add queued entities
     if (this.entitiesToAdd.length > 0) {
       for (const entity of this.entitiesToAdd) {
-        this.entities.set(entity.id, entity);
+        this.registerEntity(entity);
       }
       this.entitiesToAdd = [];
     }
 
     // Update physics
-    this.physics.update();
+    this.physics.update(dt);
 
     // Update entities
     this.entities.forEach((entity) => {
       entity.update(dt);
     });
 
+    // Run systems; copied so systems can add or remove systems while running
+    for (const system of this.systems.slice()) {
+      if (this.systems.includes(system)) {
+        system.update(dt);
+      }
+    }
+
     // Remove destroyed entities
     this.entities.forEach((entity, id) => {
       if (entity.isDestroyed) {
@@ -127,13 +427,75 @@ export class Scene {
     });
   }
 
+  /**
+   * Saves the scene's entities, including queued ones, as JSON-compatible data
+   * Meshes are saved by asset URL, and only registered components are saved
+   * @returns The scene data, ready for JSON.stringify
+   */
+  toJSON(): SceneData {
+    const entities = [...this.entities.values(), ...this.entitiesToAdd];
+    const roots = entities.filter(
+      (entity) => !entity.isDestroyed && !entity.parent
+    );
+
+    return {
+      version: SCENE_DATA_VERSION,
+      entities: roots.map((entity) => serializeEntity(entity)),
+    };
+  }
+
+  /**
+   * Loads entities from saved scene data and adds them to this scene
+   * Nothing is added if any entity fails to load
+   * @param data The scene data, e.g. from JSON.parse
+   * @param assets Asset manager to load models with; required if any mesh has a URL
+   * @returns The loaded root entities
+   */
+  async fromJSON(data: unknown, assets?: AssetManager): Promise<Entity[]> {
+    const scene = validateSceneData(data);
+
+    const roots = await deserializeEntities(
+      scene.entities,
+      this.physics,
+      assets
+    );
+    roots.forEach((entity) => this.addEntity(entity));
+
+    return roots;
+  }
+
   /**
    * Cleans up the scene
    * Call this when you're done with the scene
    */
   dispose(): void {
+    // Remove systems
+    const systems = this.systems;
+    this.systems = [];
+    systems.forEach((system) => {
+      if (system.onRemovedFromScene) {
+        system.onRemovedFromScene();
+      }
+    });
+
+    // Tell entities they left the scene
+    this.entities.forEach((entity) => entity.removedFromScene());
+
+    // Stop routing collisions and component changes
+    this.entityUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.entityUnsubscribers.clear();
+    this.bodyUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.bodyUnsubscribers.clear();
+    this.entitiesByBody.clear();
+    this.queries.forEach((query) => query.clear());
+    this.queries.clear();
+
     // Clear all entities
     this.entities.clear();
+    this.entitiesToAdd.forEach((entity) => (entity.pendingScene = undefined));
     this.entitiesToAdd = [];
+
+    // Stop the physics worker
+    this.physics.dispose();
   }
 }
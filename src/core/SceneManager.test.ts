@@ -0,0 +1,201 @@
+import { describe, expect, it, vi } from "vitest";
+import { Scene } from "./Scene";
+import { SceneManager, SceneTransitionType } from "./SceneManager";
+import type { AssetManager } from "./AssetManager";
+import type { PhysicsWorkerIncomingMessage } from "../physics/types";
+
+// Run the physics simulation in-process in place of the web worker
+vi.mock("../workers/physics.worker.ts?worker", async () => {
+  const { PhysicsSimulation } = await import("../workers/PhysicsSimulation");
+
+  return {
+    default: class {
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+
+      private simulation = new PhysicsSimulation((message) => {
+        this.onmessage?.({ data: message });
+      });
+
+      postMessage(message: PhysicsWorkerIncomingMessage): void {
+        this.simulation.handleMessage(message);
+      }
+
+      terminate(): void {}
+    },
+  };
+});
+
+// Preload hooks only receive the asset manager, which these scenes ignore
+const assets = {} as AssetManager;
+
+// A scene that records its lifecycle hooks, optionally waiting to preload
+class RecordingScene extends Scene {
+  constructor(
+    readonly name: string,
+    private log: string[],
+    private loading?: Promise<void>
+  ) {
+    super();
+  }
+
+  async preload(): Promise<void> {
+    this.log.push(`${this.name} preload`);
+    await this.loading;
+  }
+
+  initialize(): void {
+    super.initialize();
+    this.log.push(`${this.name} initialize`);
+  }
+
+  onEnter(): void {
+    this.log.push(`${this.name} enter`);
+  }
+
+  onExit(): void {
+    this.log.push(`${this.name} exit`);
+  }
+
+  onPause(): void {
+    this.log.push(`${this.name} pause`);
+  }
+
+  onResume(): void {
+    this.log.push(`${this.name} resume`);
+  }
+
+  dispose(): void {
+    this.log.push(`${this.name} dispose`);
+    super.dispose();
+  }
+}
+
+// A promise with its settle functions, to control when a preload finishes
+function deferred(): {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+} {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("SceneManager", () => {
+  it("calls lifecycle hooks in order as scenes are pushed and popped", async () => {
+    const manager = new SceneManager(assets);
+    const log: string[] = [];
+    const game = new RecordingScene("game", log);
+    const pause = new RecordingScene("pause", log);
+
+    await manager.set(game);
+    await manager.push(pause);
+    expect(manager.scenes).toEqual([game, pause]);
+    await manager.pop();
+
+    expect(log).toEqual([
+      "game preload",
+      "game initialize",
+      "game enter",
+      "pause preload",
+      "pause initialize",
+      "game pause",
+      "pause enter",
+      "pause exit",
+      "game resume",
+      "pause dispose",
+    ]);
+    expect(manager.current).toBe(game);
+  });
+
+  it("runs changes one at a time, in the order they were requested", async () => {
+    const manager = new SceneManager(assets);
+    const log: string[] = [];
+    const loading = deferred();
+    const slow = new RecordingScene("slow", log, loading.promise);
+    const fast = new RecordingScene("fast", log);
+
+    const first = manager.push(slow);
+    const second = manager.push(fast);
+    await Promise.resolve();
+    expect(manager.isBusy).toBe(true);
+    expect(log).toEqual(["slow preload"]);
+
+    loading.resolve();
+    await Promise.all([first, second]);
+    expect(manager.scenes).toEqual([slow, fast]);
+    expect(manager.isBusy).toBe(false);
+  });
+
+  it("disposes a scene whose preload fails, without blocking later changes", async () => {
+    const manager = new SceneManager(assets);
+    const log: string[] = [];
+    const loading = deferred();
+    const broken = new RecordingScene("broken", log, loading.promise);
+    const next = new RecordingScene("next", log);
+
+    const failed = manager.push(broken);
+    const later = manager.push(next);
+    loading.reject(new Error("Missing asset"));
+
+    await expect(failed).rejects.toThrow("Missing asset");
+    await later;
+    expect(log).toEqual([
+      "broken preload",
+      "broken dispose",
+      "next preload",
+      "next initialize",
+      "next enter",
+    ]);
+    expect(manager.scenes).toEqual([next]);
+  });
+
+  it("disposes a scene that is still loading when the manager is disposed", async () => {
+    const manager = new SceneManager(assets);
+    const log: string[] = [];
+    const loading = deferred();
+    const scene = new RecordingScene("scene", log, loading.promise);
+
+    const change = manager.push(scene);
+    const queued = manager.push(new RecordingScene("queued", log));
+    await Promise.resolve();
+    manager.dispose();
+    loading.resolve();
+
+    await expect(change).rejects.toThrow("disposed");
+    await expect(queued).rejects.toThrow("disposed");
+    expect(log).toEqual(["scene preload", "scene dispose"]);
+  });
+
+  it("disposes both scenes when disposed mid-transition", async () => {
+    const manager = new SceneManager(assets);
+    const log: string[] = [];
+    const from = new RecordingScene("from", log);
+    const to = new RecordingScene("to", log);
+    await manager.set(from);
+    log.length = 0;
+
+    const change = manager.set(to, {
+      type: SceneTransitionType.FADE,
+      duration: 1,
+    });
+    // Let the change load the scene and start fading out
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    manager.update(0, 0.1);
+    manager.dispose();
+
+    await expect(change).rejects.toThrow("disposed");
+    expect(log).toEqual([
+      "to preload",
+      "to initialize",
+      "from exit",
+      "from dispose",
+      "to dispose",
+    ]);
+    expect(manager.scenes).toEqual([]);
+  });
+});
@@ -0,0 +1,457 @@
+import * as THREE from "three";
+import type { Scene } from "./Scene";
+import type { AssetManager } from "./AssetManager";
+import { TransitionRenderer } from "./TransitionRenderer";
+
+/**
+ * Ways of switching between scenes
+ */
+export enum SceneTransitionType {
+  /** Switch on the next frame */
+  NONE = "none",
+  /** Fade out to a colour, switch, and fade back in */
+  FADE = "fade",
+  /** Blend from the old scenes to the new ones */
+  CROSSFADE = "crossfade",
+}
+
+/**
+ * Scene transition options
+ */
+export interface SceneTransition {
+  type: SceneTransitionType;
+  /** Length of the whole transition in seconds (defaults to 0.5) */
+  duration?: number;
+  /** Fade colour (defaults to black) */
+  color?: THREE.ColorRepresentation;
+}
+
+/**
+ * A transition being played
+ */
+interface ActiveTransition {
+  type: SceneTransitionType;
+  /** Whether a fade is going out to the colour, rather than coming back */
+  fadingOut: boolean;
+  color: THREE.ColorRepresentation;
+  duration: number;
+  elapsed: number;
+  /** Layers shown before a crossfade, bottom first */
+  from: Scene[];
+  /** Called when the transition has played */
+  resolve: () => void;
+  /** Called if the manager is disposed first */
+  reject: (error: Error) => void;
+}
+
+/**
+ * Gets a scene's camera
+ */
+export type SceneCameraGetter = (scene: Scene) => THREE.Camera;
+
+/**
+ * Manages a stack of scenes, e.g. a pause menu pushed over gameplay
+ * Only the top scene is updated; scenes below it are paused, and stay visible
+ * under overlay scenes
+ * Stack changes run one at a time, in the order they were requested
+ */
+export class SceneManager {
+  /** Scenes, bottom first */
+  private stack: Scene[] = [];
+
+  /** Pending and running stack changes */
+  private queue: Promise<void> = Promise.resolve();
+
+  /** Number of stack changes not yet finished */
+  private pendingChanges = 0;
+
+  /** The transition being played, if any */
+  private transition?: ActiveTransition;
+
+  /** Draws fades and crossfades */
+  private transitionRenderer = new TransitionRenderer();
+
+  /** Whether dispose has been called */
+  private disposed = false;
+
+  /**
+   * Creates a scene manager
+   * @param assets Asset manager passed to scene preload hooks
+   */
+  constructor(private assets: AssetManager) {}
+
+  /**
+   * The top scene, which is the only one updated
+   */
+  get current(): Scene | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  /**
+   * All scenes on the stack, bottom first
+   */
+  get scenes(): readonly Scene[] {
+    return this.stack;
+  }
+
+  /**
+   * Whether a stack change is loading or transitioning
+   */
+  get isBusy(): boolean {
+    return this.pendingChanges > 0;
+  }
+
+  /**
+   * Preloads a scene and pushes it on top of the stack, pausing the old top
+   * @param scene The scene to push
+   * @param transition How to switch to the scene
+   */
+  push(scene: Scene, transition?: SceneTransition): Promise<void> {
+    return this.enqueue(async () => {
+      await this.load(scene);
+      await this.change(
+        () => {
+          const below = this.current;
+          if (below) below.onPause();
+
+          this.stack.push(scene);
+          scene.onEnter();
+          return [];
+        },
+        transition,
+        scene
+      );
+    });
+  }
+
+  /**
+   * Removes and disposes the top scene, resuming the one below it
+   * @param transition How to switch back
+   */
+  pop(transition?: SceneTransition): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.stack.length === 0) {
+        console.warn("No scene to pop");
+        return;
+      }
+
+      await this.change(() => {
+        const top = this.stack.pop()!;
+        top.onExit();
+
+        const below = this.current;
+        if (below) below.onResume();
+        return [top];
+      }, transition);
+    });
+  }
+
+  /**
+   * Preloads a scene and swaps it for the top scene, which is disposed
+   * @param scene The new scene
+   * @param transition How to switch to the scene
+   */
+  replace(scene: Scene, transition?: SceneTransition): Promise<void> {
+    return this.enqueue(async () => {
+      await this.load(scene);
+      await this.change(
+        () => {
+          const top = this.stack.pop();
+          if (top) top.onExit();
+
+          this.stack.push(scene);
+          scene.onEnter();
+          return top ? [top] : [];
+        },
+        transition,
+        scene
+      );
+    });
+  }
+
+  /**
+   * Preloads a scene and makes it the only one, disposing all the others
+   * @param scene The new scene
+   * @param transition How to switch to the scene
+   */
+  set(scene: Scene, transition?: SceneTransition): Promise<void> {
+    return this.enqueue(async () => {
+      await this.load(scene);
+      await this.change(
+        () => {
+          const exiting = this.stack.slice().reverse();
+          exiting.forEach((old) => old.onExit());
+
+          this.stack = [scene];
+          scene.onEnter();
+          return exiting;
+        },
+        transition,
+        scene
+      );
+    });
+  }
+
+  /**
+   * Updates the top scene and advances any transition
+   * @param dt Simulated delta time in seconds, for the scene
+   * @param realDt Real delta time in seconds, for transitions
+   */
+  update(dt: number, realDt: number): void {
+    const top = this.current;
+    if (top) top.update(dt);
+
+    const transition = this.transition;
+    if (transition) {
+      transition.elapsed += realDt;
+      if (transition.elapsed >= transition.duration) {
+        this.transition = undefined;
+        transition.resolve();
+      }
+    }
+  }
+
+  /**
+   * Renders the visible scenes and any transition
+   * @param renderer The renderer
+   * @param getCamera Gets the camera to render each scene with
+   */
+  render(renderer: THREE.WebGLRenderer, getCamera: SceneCameraGetter): void {
+    const transition = this.transition;
+    const to = this.getVisibleScenes(this.stack);
+
+    if (transition?.type === SceneTransitionType.CROSSFADE) {
+      const from = this.getVisibleScenes(transition.from);
+      this.transitionRenderer.renderCrossfade(
+        renderer,
+        () => this.renderScenes(renderer, from, getCamera),
+        () => this.renderScenes(renderer, to, getCamera),
+        transition.elapsed / transition.duration
+      );
+      return;
+    }
+
+    this.renderScenes(renderer, to, getCamera);
+
+    if (transition?.type === SceneTransitionType.FADE) {
+      const progress = transition.elapsed / transition.duration;
+      this.transitionRenderer.renderFade(
+        renderer,
+        transition.color,
+        transition.fadingOut ? progress : 1 - progress
+      );
+    }
+  }
+
+  /**
+   * Exits and disposes every scene and frees transition resources
+   * Changes still loading, transitioning or queued reject, and scenes they
+   * loaded are disposed
+   */
+  dispose(): void {
+    this.disposed = true;
+
+    const scenes = this.stack.slice().reverse();
+    this.stack = [];
+    scenes.forEach((scene) => {
+      scene.onExit();
+      scene.dispose();
+    });
+
+    const transition = this.transition;
+    this.transition = undefined;
+    transition?.reject(new Error("Scene manager was disposed"));
+    this.transitionRenderer.dispose();
+  }
+
+  /**
+   * Runs a stack change after the ones before it
+   * A failed change rejects its own promise without blocking later ones
+   * @param run The change
+   */
+  private enqueue(run: () => Promise<void>): Promise<void> {
+    this.pendingChanges++;
+    const result = this.queue
+      .then(() => {
+        this.checkNotDisposed();
+        return run();
+      })
+      .finally(() => {
+        this.pendingChanges--;
+      });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Throws if the manager has been disposed, e.g. while a change waited
+   */
+  private checkNotDisposed(): void {
+    if (this.disposed) {
+      throw new Error("Scene manager was disposed");
+    }
+  }
+
+  /**
+   * Preloads and initializes a scene before it is shown
+   * The current scenes keep running while it loads; if preloading fails, the
+   * scene is disposed
+   * @param scene The scene
+   */
+  private async load(scene: Scene): Promise<void> {
+    if (this.stack.includes(scene)) {
+      throw new Error("Scene is already on the stack");
+    }
+
+    try {
+      await scene.preload(this.assets);
+    } catch (error) {
+      // The scene will never be shown, so free its physics worker
+      scene.dispose();
+      throw error;
+    }
+
+    // Disposed while loading, so the scene will never be shown
+    if (this.disposed) {
+      scene.dispose();
+      throw new Error("Scene manager was disposed");
+    }
+    scene.initialize();
+  }
+
+  /**
+   * Applies a stack change, playing a transition around it
+   * If the manager is disposed meanwhile, the change rejects and disposes
+   * the incoming scene, or the scenes that left the stack
+   * @param apply Changes the stack and calls lifecycle hooks; returns the
+   * scenes that left it, which are disposed once they are no longer shown
+   * @param transition How to switch
+   * @param incoming The scene the change shows, if any
+   */
+  private async change(
+    apply: () => Scene[],
+    transition: SceneTransition = { type: SceneTransitionType.NONE },
+    incoming?: Scene
+  ): Promise<void> {
+    const duration = transition.duration ?? 0.5;
+    const color = transition.color ?? 0x000000;
+
+    // Scenes that left the stack and still need disposing, once applied
+    let exiting: Scene[] | null = null;
+
+    try {
+      switch (transition.type) {
+        case SceneTransitionType.FADE: {
+          await this.play(SceneTransitionType.FADE, duration / 2, color, true);
+          this.checkNotDisposed();
+          exiting = apply();
+          this.disposeScenes(exiting);
+          await this.play(SceneTransitionType.FADE, duration / 2, color, false);
+          break;
+        }
+        case SceneTransitionType.CROSSFADE: {
+          const from = this.stack.slice();
+          exiting = apply();
+          await this.play(
+            SceneTransitionType.CROSSFADE,
+            duration,
+            color,
+            false,
+            from
+          );
+          this.disposeScenes(exiting);
+          break;
+        }
+        default: {
+          exiting = apply();
+          this.disposeScenes(exiting);
+        }
+      }
+    } catch (error) {
+      if (exiting) {
+        this.disposeScenes(exiting);
+      } else {
+        incoming?.dispose();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Disposes scenes that left the stack, emptying the array so none is
+   * disposed twice
+   * @param scenes The scenes
+   */
+  private disposeScenes(scenes: Scene[]): void {
+    scenes.splice(0).forEach((scene) => scene.dispose());
+  }
+
+  /**
+   * Plays a transition, resolving once it has run for its duration
+   * @param type The transition type
+   * @param duration Length in seconds
+   * @param color Fade colour
+   * @param fadingOut Whether a fade is going out to the colour
+   * @param from Layers shown before a crossfade
+   */
+  private play(
+    type: SceneTransitionType,
+    duration: number,
+    color: THREE.ColorRepresentation,
+    fadingOut: boolean,
+    from: Scene[] = []
+  ): Promise<void> {
+    if (duration <= 0) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      this.transition = {
+        type,
+        fadingOut,
+        color,
+        duration,
+        elapsed: 0,
+        from,
+        resolve,
+        reject,
+      };
+    });
+  }
+
+  /**
+   * Gets the scenes to draw: the top scene and, while scenes are overlays,
+   * the ones below them
+   * @param stack Scenes, bottom first
+   * @returns Scenes to draw, bottom first
+   */
+  private getVisibleScenes(stack: readonly Scene[]): Scene[] {
+    let bottom = stack.length - 1;
+    while (bottom > 0 && stack[bottom].isOverlay) {
+      bottom--;
+    }
+    return stack.slice(Math.max(bottom, 0));
+  }
+
+  /**
+   * Draws scenes over each other, clearing depth between them
+   * @param renderer The renderer
+   * @param scenes Scenes to draw, bottom first
+   * @param getCamera Gets the camera to render each scene with
+   */
+  private renderScenes(
+    renderer: THREE.WebGLRenderer,
+    scenes: Scene[],
+    getCamera: SceneCameraGetter
+  ): void {
+    const autoClear = renderer.autoClear;
+
+    scenes.forEach((scene, index) => {
+      if (index > 0) {
+        renderer.autoClear = false;
+        renderer.clearDepth();
+      }
+      renderer.render(scene.threeScene, getCamera(scene));
+    });
+
+    renderer.autoClear = autoClear;
+  }
+}
@@ -0,0 +1,39 @@
+import type { Scene } from "./Scene";
+
+/**
+ * Base interface for all systems
+ * Systems hold game logic that runs over many entities each frame, usually
+ * the entities matched by one or more component queries
+ */
+export interface System {
+  /**
+   * Update order; systems run in ascending priority, and systems with the
+   * same priority run in the order they were added
+   * Read when the system is added to a scene (defaults to 0)
+   */
+  priority?: number;
+
+  /**
+   * Called when the system is added to a scene, e.g. to set up queries
+   * @param scene The scene
+   */
+  onAddedToScene?(scene: Scene): void;
+
+  /**
+   * Called when the system is removed from its scene or the scene is disposed
+   */
+  onRemovedFromScene?(): void;
+
+  /**
+   * Called on each frame to run the system
+   * @param dt Simulated delta time in seconds
+   */
+  update(dt: number): void;
+}
+
+/**
+ * System constructor type
+ */
+export type SystemConstructor<T extends System = System> = new (
+  ...args: any[]
+) => T;
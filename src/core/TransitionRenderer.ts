@@ -0,0 +1,157 @@
+import * as THREE from "three";
+
+/**
+ * Draws scene transitions as full-screen passes: a colour fade over the
+ * frame, or a blend of two frames rendered to textures
+ */
+export class TransitionRenderer {
+  /** Camera for the full-screen quad */
+  private camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+  /** Scene holding only the full-screen quad */
+  private scene = new THREE.Scene();
+
+  /** Full-screen quad */
+  private quad: THREE.Mesh;
+
+  /** Material for colour fades */
+  private fadeMaterial = new THREE.MeshBasicMaterial({
+    transparent: true,
+    depthTest: false,
+    depthWrite: false,
+  });
+
+  /** Material blending two frames */
+  private crossfadeMaterial = new THREE.ShaderMaterial({
+    uniforms: {
+      tFrom: { value: null },
+      tTo: { value: null },
+      amount: { value: 0 },
+    },
+    vertexShader: /* glsl */ `
+      varying vec2 vUv;
+      void main() {
+        vUv = uv;
+        gl_Position = vec4(position.xy, 0.0, 1.0);
+      }
+    `,
+    fragmentShader: /* glsl */ `
+      uniform sampler2D tFrom;
+      uniform sampler2D tTo;
+      uniform float amount;
+      varying vec2 vUv;
+      void main() {
+        gl_FragColor = mix(texture2D(tFrom, vUv), texture2D(tTo, vUv), amount);
+        #include <colorspace_fragment>
+      }
+    `,
+    depthTest: false,
+    depthWrite: false,
+  });
+
+  /** Targets for the outgoing and incoming frames, created on first use */
+  private targets?: [THREE.WebGLRenderTarget, THREE.WebGLRenderTarget];
+
+  /**
+   * Creates a transition renderer
+   */
+  constructor() {
+    this.quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2));
+    this.quad.frustumCulled = false;
+    this.scene.add(this.quad);
+  }
+
+  /**
+   * Draws a colour over whatever was rendered this frame
+   * @param renderer The renderer
+   * @param color The fade colour
+   * @param amount Opacity of the colour, from 0 to 1
+   */
+  renderFade(
+    renderer: THREE.WebGLRenderer,
+    color: THREE.ColorRepresentation,
+    amount: number
+  ): void {
+    if (amount <= 0) return;
+
+    this.fadeMaterial.color.set(color);
+    this.fadeMaterial.opacity = Math.min(amount, 1);
+    this.quad.material = this.fadeMaterial;
+
+    const autoClear = renderer.autoClear;
+    renderer.autoClear = false;
+    renderer.render(this.scene, this.camera);
+    renderer.autoClear = autoClear;
+  }
+
+  /**
+   * Renders two frames to textures and draws a blend of them
+   * @param renderer The renderer
+   * @param renderFrom Renders the outgoing frame to the current target
+   * @param renderTo Renders the incoming frame to the current target
+   * @param amount How far the blend has gone, from 0 (outgoing) to 1 (incoming)
+   */
+  renderCrossfade(
+    renderer: THREE.WebGLRenderer,
+    renderFrom: () => void,
+    renderTo: () => void,
+    amount: number
+  ): void {
+    const [from, to] = this.getTargets(renderer);
+    const previousTarget = renderer.getRenderTarget();
+
+    renderer.setRenderTarget(from);
+    renderer.clear();
+    renderFrom();
+    renderer.setRenderTarget(to);
+    renderer.clear();
+    renderTo();
+    renderer.setRenderTarget(previousTarget);
+
+    this.crossfadeMaterial.uniforms.tFrom.value = from.texture;
+    this.crossfadeMaterial.uniforms.tTo.value = to.texture;
+    this.crossfadeMaterial.uniforms.amount.value = Math.min(
+      Math.max(amount, 0),
+      1
+    );
+    this.quad.material = this.crossfadeMaterial;
+    renderer.render(this.scene, this.camera);
+  }
+
+  /**
+   * Gets the crossfade targets, sized to the drawing buffer
+   * @param renderer The renderer
+   */
+  private getTargets(
+    renderer: THREE.WebGLRenderer
+  ): [THREE.WebGLRenderTarget, THREE.WebGLRenderTarget] {
+    const size = renderer.getDrawingBufferSize(new THREE.Vector2());
+
+    if (!this.targets) {
+      const options = { type: THREE.HalfFloatType };
+      this.targets = [
+        new THREE.WebGLRenderTarget(size.x, size.y, options),
+        new THREE.WebGLRenderTarget(size.x, size.y, options),
+      ];
+    }
+
+    for (const target of this.targets) {
+      if (target.width !== size.x || target.height !== size.y) {
+        target.setSize(size.x, size.y);
+      }
+    }
+
+    return this.targets;
+  }
+
+  /**
+   * Frees GPU resources
+   */
+  dispose(): void {
+    this.quad.geometry.dispose();
+    this.fadeMaterial.dispose();
+    this.crossfadeMaterial.dispose();
+    this.targets?.forEach((target) => target.dispose());
+    this.targets = undefined;
+  }
+}
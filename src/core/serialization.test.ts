@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+import { Entity } from "./Entity";
+import { registerComponent } from "./ComponentRegistry";
+import {
+  EntityData,
+  deserializeEntities,
+  deserializeEntity,
+  serializeEntity,
+} from "./serialization";
+import type { Component } from "./Component";
+import { PhysicsWorld } from "../physics/PhysicsWorld";
+import {
+  PhysicsObjectOptions,
+  PhysicsShapeType,
+  PhysicsWorkerIncomingMessage,
+} from "../physics/types";
+
+// Run the physics simulation in-process in place of the web worker
+vi.mock("../workers/physics.worker.ts?worker", async () => {
+  const { PhysicsSimulation } = await import("../workers/PhysicsSimulation");
+
+  return {
+    default: class {
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+
+      private simulation = new PhysicsSimulation((message) => {
+        this.onmessage?.({ data: message });
+      });
+
+      postMessage(message: PhysicsWorkerIncomingMessage): void {
+        this.simulation.handleMessage(message);
+      }
+
+      terminate(): void {}
+    },
+  };
+});
+
+class Health implements Component {
+  current = 100;
+  max = 100;
+
+  serialize(): unknown {
+    return { current: this.current, max: this.max };
+  }
+
+  deserialize(data: unknown): void {
+    Object.assign(this, data);
+  }
+}
+registerComponent(Health, "SerializationHealth");
+
+// A static ramp with a custom triangle mesh
+const ramp = (): PhysicsObjectOptions => ({
+  type: PhysicsShapeType.TRIMESH,
+  vertices: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 1]),
+  indices: new Uint32Array([0, 1, 2]),
+  mass: 0,
+  position: [1, 2, 3],
+});
+
+describe("serialization", () => {
+  it("round-trips an entity with its physics shapes and components", async () => {
+    const physics = new PhysicsWorld(new THREE.Scene());
+    const mesh = new THREE.Group();
+    mesh.position.set(1, 2, 3);
+    const entity = new Entity("Ramp", mesh);
+    entity.createBody(physics, ramp());
+    const health = entity.addComponent(new Health());
+    health.current = 42;
+    entity.addChild(new Entity("Flag"));
+
+    // Through JSON, as when saving to a file
+    const data = JSON.parse(JSON.stringify(serializeEntity(entity)));
+    const copy = await deserializeEntity(data, physics);
+
+    expect(copy.name).toBe("Ramp");
+    expect(copy.physicsId).toBeDefined();
+    expect(copy.physicsId).not.toBe(entity.physicsId);
+    expect(copy.physicsOptions).toMatchObject({
+      type: PhysicsShapeType.TRIMESH,
+      vertices: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 1]),
+      indices: new Uint32Array([0, 1, 2]),
+      mass: 0,
+      position: [1, 2, 3],
+    });
+    expect(copy.getComponent(Health)).toMatchObject({ current: 42, max: 100 });
+    expect(copy.children.map((child) => child.name)).toEqual(["Flag"]);
+  });
+
+  it("removes every body it created when an entity fails to load", async () => {
+    const physics = new PhysicsWorld(new THREE.Scene());
+    const addObject = vi.spyOn(physics, "addObject");
+    const removeObject = vi.spyOn(physics, "removeObject");
+
+    const crate: EntityData = {
+      name: "Crate",
+      physics: {
+        type: PhysicsShapeType.BOX,
+        size: [1, 1, 1],
+        mass: 1,
+        position: [0, 0, 0],
+      },
+      components: [],
+    };
+    // Its body is created before its child's model fails to load
+    const broken: EntityData = {
+      ...crate,
+      name: "Broken",
+      children: [
+        {
+          name: "Model",
+          mesh: {
+            url: "model.glb",
+            position: [0, 0, 0],
+            quaternion: [0, 0, 0, 1],
+            scale: [1, 1, 1],
+          },
+          components: [],
+        },
+      ],
+    };
+
+    await expect(deserializeEntities([crate, broken], physics)).rejects.toThrow(
+      /no asset manager/
+    );
+
+    const created = addObject.mock.results.map((result) => result.value);
+    expect(created).toHaveLength(2);
+    expect(removeObject.mock.calls.map(([id]) => id)).toEqual(created);
+  });
+});
@@ -0,0 +1,297 @@
+import * as THREE from "three";
+import { Entity } from "./Entity";
+import type { AssetManager } from "./AssetManager";
+import type { PhysicsWorld } from "../physics/PhysicsWorld";
+import {
+  PhysicsCompoundChildOptions,
+  PhysicsObjectOptions,
+  PhysicsShapeOptions,
+} from "../physics/types";
+import { getComponentType, getComponentTypeName } from "./ComponentRegistry";
+
+/** Bumped whenever the scene data layout changes */
+export const SCENE_DATA_VERSION = 1;
+
+/**
+ * Shape options with typed arrays stored as plain arrays, so they survive JSON
+ */
+export type ShapeOptionsData<T extends PhysicsShapeOptions> = Omit<
+  T,
+  "vertices" | "indices" | "heights" | "shapes"
+> & {
+  vertices?: number[];
+  indices?: number[];
+  heights?: number[];
+  shapes?: ShapeOptionsData<PhysicsCompoundChildOptions>[];
+};
+
+/**
+ * Saved physics body options
+ */
+export type PhysicsOptionsData = ShapeOptionsData<PhysicsObjectOptions>;
+
+/**
+ * Saved component
+ */
+export interface ComponentData {
+  /** Name the component type was registered under */
+  type: string;
+  /** Whatever the component's serialize method returned */
+  data?: unknown;
+}
+
+/**
+ * Saved mesh, referenced by asset URL
+ * Meshes that weren't loaded from a URL are restored as empty groups
+ */
+export interface MeshData {
+  url?: string;
+  /** Local transform; world space for entities with a physics body */
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  scale: [number, number, number];
+}
+
+/**
+ * Saved entity, including its descendants
+ */
+export interface EntityData {
+  name: string;
+  mesh?: MeshData;
+  physics?: PhysicsOptionsData;
+  components: ComponentData[];
+  children?: EntityData[];
+}
+
+/**
+ * Saved scene
+ */
+export interface SceneData {
+  version: number;
+  /** Root entities */
+  entities: EntityData[];
+}
+
+/**
+ * Converts shape options to a JSON-compatible form
+ * @param options The shape options
+ */
+function shapeToData<T extends PhysicsShapeOptions>(
+  options: T
+): ShapeOptionsData<T> {
+  const { vertices, indices, heights, shapes, ...rest } = options;
+  const data = { ...rest } as ShapeOptionsData<T>;
+
+  if (vertices) data.vertices = Array.from(vertices);
+  if (indices) data.indices = Array.from(indices);
+  if (heights) data.heights = Array.from(heights);
+  if (shapes) data.shapes = shapes.map((shape) => shapeToData(shape));
+
+  return data;
+}
+
+/**
+ * Converts saved shape options back, with fresh buffers that can be
+ * transferred to the physics worker
+ * @param data The saved shape options
+ */
+function shapeFromData<T extends PhysicsShapeOptions>(
+  data: ShapeOptionsData<T>
+): T {
+  const { vertices, indices, heights, shapes, ...rest } = data;
+  const options = { ...rest } as unknown as T;
+
+  if (vertices) options.vertices = new Float32Array(vertices);
+  if (indices) options.indices = new Uint32Array(indices);
+  if (heights) options.heights = new Float32Array(heights);
+  if (shapes) options.shapes = shapes.map((shape) => shapeFromData(shape));
+
+  return options;
+}
+
+/**
+ * Saves an entity, its mesh reference, physics options, registered
+ * components and descendants
+ * Destroyed descendants are left out
+ * @param entity The entity
+ * @returns JSON-compatible entity data
+ */
+export function serializeEntity(entity: Entity): EntityData {
+  const data: EntityData = { name: entity.name, components: [] };
+
+  if (entity.mesh) {
+    data.mesh = {
+      url: entity.assetUrl ?? entity.mesh.userData.assetUrl,
+      position: entity.mesh.position.toArray(),
+      quaternion: entity.mesh.quaternion.toArray() as [
+        number,
+        number,
+        number,
+        number
+      ],
+      scale: entity.mesh.scale.toArray(),
+    };
+  }
+
+  if (entity.physicsOptions) {
+    data.physics = shapeToData(entity.physicsOptions);
+  } else if (entity.physicsId !== undefined) {
+    console.warn(
+      `Entity ${entity.name} has a physics body without physicsOptions, so it is saved without one. Create bodies with Entity.createBody.`
+    );
+  }
+
+  for (const component of entity.getAllComponents()) {
+    const type = getComponentTypeName(component);
+    if (!type) continue;
+
+    const componentData: ComponentData = { type };
+    if (component.serialize) {
+      componentData.data = component.serialize();
+    }
+    data.components.push(componentData);
+  }
+
+  const children = entity.children.filter((child) => !child.isDestroyed);
+  if (children.length > 0) {
+    data.children = children.map((child) => serializeEntity(child));
+  }
+
+  return data;
+}
+
+/**
+ * Creates an entity and its descendants from saved data
+ * Models are loaded through the asset manager, and physics bodies are created
+ * at the saved mesh transform; the entities still need adding to a scene
+ * If anything fails, the bodies already created are removed again
+ * @param data The saved entity
+ * @param physics The physics world to create bodies in
+ * @param assets Asset manager to load models with; required if any mesh has a URL
+ * @returns The entity
+ */
+export async function deserializeEntity(
+  data: EntityData,
+  physics: PhysicsWorld,
+  assets?: AssetManager
+): Promise<Entity> {
+  const [entity] = await deserializeEntities([data], physics, assets);
+  return entity;
+}
+
+/**
+ * Creates several entities and their descendants from saved data, all or
+ * nothing: if any fails, the bodies already created are removed again
+ * @param data The saved entities
+ * @param physics The physics world to create bodies in
+ * @param assets Asset manager to load models with; required if any mesh has a URL
+ * @returns The entities, in the same order
+ */
+export async function deserializeEntities(
+  data: EntityData[],
+  physics: PhysicsWorld,
+  assets?: AssetManager
+): Promise<Entity[]> {
+  const bodyIds: number[] = [];
+  try {
+    const entities: Entity[] = [];
+    for (const entityData of data) {
+      entities.push(await buildEntity(entityData, physics, assets, bodyIds));
+    }
+    return entities;
+  } catch (error) {
+    // Nothing owns these bodies now
+    bodyIds.forEach((id) => physics.removeObject(id));
+    throw error;
+  }
+}
+
+/**
+ * Creates an entity and its descendants from saved data
+ * @param data The saved entity
+ * @param physics The physics world to create bodies in
+ * @param assets Asset manager to load models with
+ * @param bodyIds Receives the ID of every body created
+ * @returns The entity
+ */
+async function buildEntity(
+  data: EntityData,
+  physics: PhysicsWorld,
+  assets: AssetManager | undefined,
+  bodyIds: number[]
+): Promise<Entity> {
+  let mesh: THREE.Object3D | undefined;
+  if (data.mesh) {
+    if (data.mesh.url) {
+      if (!assets) {
+        throw new Error(
+          `Entity ${data.name} references ${data.mesh.url} but no asset manager was given`
+        );
+      }
+      mesh = await assets.loadModel(data.mesh.url);
+    } else {
+      mesh = new THREE.Group();
+    }
+
+    mesh.position.fromArray(data.mesh.position);
+    mesh.quaternion.fromArray(data.mesh.quaternion);
+    mesh.scale.fromArray(data.mesh.scale);
+  } else if (data.physics) {
+    // Bodies sync to an object, so give them one
+    mesh = new THREE.Group();
+  }
+
+  const entity = new Entity(data.name, mesh);
+  entity.assetUrl = data.mesh?.url;
+
+  if (data.physics && mesh) {
+    // Start the body where the entity was saved
+    const options = shapeFromData<PhysicsObjectOptions>(data.physics);
+    options.position = mesh.position.toArray();
+    options.quaternion = mesh.quaternion.toArray() as [
+      number,
+      number,
+      number,
+      number
+    ];
+    bodyIds.push(entity.createBody(physics, options));
+  }
+
+  for (const componentData of data.components) {
+    const Type = getComponentType(componentData.type);
+    if (!Type) {
+      console.warn(
+        `Component ${componentData.type} on entity ${data.name} is not registered. Skipping.`
+      );
+      continue;
+    }
+
+    const component = new Type();
+    if (componentData.data !== undefined && component.deserialize) {
+      component.deserialize(componentData.data);
+    }
+    entity.addComponent(component);
+  }
+
+  for (const childData of data.children ?? []) {
+    entity.addChild(await buildEntity(childData, physics, assets, bodyIds));
+  }
+
+  return entity;
+}
+
+/**
+ * Checks saved scene data before loading it
+ * @param data The parsed JSON
+ * @returns The scene data
+ */
+export function validateSceneData(data: unknown): SceneData {
+  const scene = data as SceneData;
+  if (!scene || typeof scene !== "object" || !Array.isArray(scene.entities)) {
+    throw new Error("Invalid scene data");
+  }
+  if (scene.version !== SCENE_DATA_VERSION) {
+    throw new Error(`Unsupported scene data version: ${scene.version}`);
+  }
+  return scene;
+}
@@ -7,7 +7,6 @@ const Stats = ((await import("three/examples/jsm/libs/stats.module")) as any)
   .default;
 
 import * as CANNON from "cannon-es";
-import CannonDebugger from "cannon-es-debugger";
 import { PhysicsWorld } from "./physics/PhysicsWorld";
 
 // Create a scene
@@ -142,11 +141,13 @@ addBallButton.addEventListener("click", () => {
 });
 
 // Animation loop
+const clock = new THREE.Clock();
+
 function animate() {
   requestAnimationFrame(animate);
 
   // Update physics
-  physics.update();
+  physics.update(clock.getDelta());
 
   // Update controls
   controls.update();
@@ -0,0 +1,72 @@
+import * as THREE from "three";
+import { PhysicsWorld } from "./PhysicsWorld";
+import { PhysicsCharacterOptions } from "./types";
+
+/**
+ * A walking capsule character simulated inside the physics worker
+ * Call move() every frame with the desired direction; collision response,
+ * ground checks, slopes, steps, jumping and platform carry happen in the worker
+ */
+export class CharacterController {
+  /** The physics body ID of the character */
+  readonly bodyId: number;
+
+  /** Whether jump was pressed since the last move */
+  private jumpPressed = false;
+
+  /**
+   * Creates a character and adds its body to the physics world
+   * @param physics The physics world
+   * @param object The object that follows the character's capsule
+   * @param options Character tuning
+   */
+  constructor(
+    private physics: PhysicsWorld,
+    object: THREE.Object3D,
+    options: PhysicsCharacterOptions
+  ) {
+    this.bodyId = physics.addCharacter(object, options);
+  }
+
+  /**
+   * Whether the character was standing on walkable ground at the last sync
+   */
+  get isGrounded(): boolean {
+    return this.physics.getCharacterState(this.bodyId)?.grounded ?? false;
+  }
+
+  /**
+   * The character's velocity at the last sync
+   */
+  get velocity(): THREE.Vector3 {
+    const state = this.physics.getCharacterState(this.bodyId);
+    return state ? new THREE.Vector3(...state.velocity) : new THREE.Vector3();
+  }
+
+  /**
+   * Requests a jump; it is remembered briefly if the character is airborne
+   */
+  jump(): void {
+    this.jumpPressed = true;
+  }
+
+  /**
+   * Sends this frame's input to the worker
+   * @param direction World-space move direction, length up to 1 (Y is ignored)
+   */
+  move(direction: THREE.Vector3): void {
+    this.physics.setCharacterInput(
+      this.bodyId,
+      [direction.x, direction.y, direction.z],
+      this.jumpPressed
+    );
+    this.jumpPressed = false;
+  }
+
+  /**
+   * Removes the character from the physics world
+   */
+  dispose(): void {
+    this.physics.removeObject(this.bodyId);
+  }
+}
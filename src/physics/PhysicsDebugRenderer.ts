@@ -0,0 +1,308 @@
+import * as THREE from "three";
+import {
+  PhysicsCompoundChildOptions,
+  PhysicsDebugBodyShapes,
+  PhysicsShapeType,
+  PhysicsWorkerDebugFrameMessage,
+} from "./types";
+
+/** Collider colors indexed by cannon sleep state (awake, sleepy, sleeping) */
+const SLEEP_COLORS = [0x00ff00, 0xffff00, 0x4466ff];
+
+/** Color for contact points and normals */
+const CONTACT_COLOR = 0xff2222;
+
+/** Color for bounding boxes */
+const AABB_COLOR = 0x888888;
+
+/** Color for constraint links */
+const LINK_COLOR = 0xff00ff;
+
+/** Length of drawn contact normals */
+const NORMAL_LENGTH = 0.3;
+
+/** Size of drawn planes, which are infinite in the simulation */
+const PLANE_SIZE = 100;
+
+/** Corner pairs forming the 12 edges of a box, as [x, y, z] bound selectors */
+const AABB_EDGES: [number, number, number, number, number, number][] = [
+  [0, 0, 0, 1, 0, 0],
+  [0, 1, 0, 1, 1, 0],
+  [0, 0, 1, 1, 0, 1],
+  [0, 1, 1, 1, 1, 1],
+  [0, 0, 0, 0, 1, 0],
+  [1, 0, 0, 1, 1, 0],
+  [0, 0, 1, 0, 1, 1],
+  [1, 0, 1, 1, 1, 1],
+  [0, 0, 0, 0, 0, 1],
+  [1, 0, 0, 1, 0, 1],
+  [0, 1, 0, 0, 1, 1],
+  [1, 1, 0, 1, 1, 1],
+];
+
+/**
+ * A body's wireframe colliders and the material they share
+ */
+interface DebugBody {
+  group: THREE.Group;
+  material: THREE.MeshBasicMaterial;
+  sleepState: number;
+}
+
+/**
+ * Draws physics colliders, contacts, bounds and constraint links
+ * from the shape descriptions and per-step data sent by the physics worker
+ */
+export class PhysicsDebugRenderer {
+  /** Root object holding everything the renderer draws */
+  private root = new THREE.Group();
+
+  /** Collider wireframes indexed by body ID */
+  private bodies: Map<number, DebugBody> = new Map();
+
+  /** Contact points */
+  private contactPoints: THREE.Points;
+
+  /** Contact normals */
+  private contactNormals: THREE.LineSegments;
+
+  /** Axis-aligned bounding boxes */
+  private aabbLines: THREE.LineSegments;
+
+  /** Constraint and spring links */
+  private linkLines: THREE.LineSegments;
+
+  /**
+   * Creates a new debug renderer
+   * @param scene The scene to draw into
+   */
+  constructor(private scene: THREE.Scene) {
+    this.root.name = "PhysicsDebug";
+
+    this.contactPoints = new THREE.Points(
+      new THREE.BufferGeometry(),
+      new THREE.PointsMaterial({
+        color: CONTACT_COLOR,
+        size: 6,
+        sizeAttenuation: false,
+        depthTest: false,
+      })
+    );
+    this.contactNormals = this.createLines(CONTACT_COLOR);
+    this.aabbLines = this.createLines(AABB_COLOR);
+    this.linkLines = this.createLines(LINK_COLOR);
+
+    this.root.add(
+      this.contactPoints,
+      this.contactNormals,
+      this.aabbLines,
+      this.linkLines
+    );
+    this.scene.add(this.root);
+  }
+
+  /**
+   * Shows or hides everything the renderer draws
+   * @param visible Whether to draw
+   */
+  setVisible(visible: boolean): void {
+    this.root.visible = visible;
+  }
+
+  /**
+   * Creates or replaces the wireframes for bodies
+   * @param bodies Collider descriptions from the worker
+   */
+  setShapes(bodies: PhysicsDebugBodyShapes[]): void {
+    for (const { id, shapes } of bodies) {
+      this.removeBody(id);
+
+      const material = new THREE.MeshBasicMaterial({
+        color: SLEEP_COLORS[0],
+        wireframe: true,
+      });
+      const group = new THREE.Group();
+      for (const shape of shapes) {
+        const mesh = new THREE.Mesh(this.createGeometry(shape), material);
+        mesh.position.fromArray(shape.offset ?? [0, 0, 0]);
+        mesh.quaternion.fromArray(shape.quaternion ?? [0, 0, 0, 1]);
+        group.add(mesh);
+      }
+
+      this.root.add(group);
+      this.bodies.set(id, { group, material, sleepState: 0 });
+    }
+  }
+
+  /**
+   * Removes the wireframes of a body
+   * @param id The physics body ID
+   */
+  removeBody(id: number): void {
+    const body = this.bodies.get(id);
+    if (!body) return;
+
+    this.root.remove(body.group);
+    body.group.traverse((child) => {
+      if (child instanceof THREE.Mesh) child.geometry.dispose();
+    });
+    body.material.dispose();
+    this.bodies.delete(id);
+  }
+
+  /**
+   * Places every wireframe at its body's current pose
+   * @param getObject Looks up the object synced to a body
+   */
+  updatePoses(getObject: (id: number) => THREE.Object3D | undefined): void {
+    this.bodies.forEach((body, id) => {
+      const object = getObject(id);
+      if (!object) return;
+
+      body.group.position.copy(object.position);
+      body.group.quaternion.copy(object.quaternion);
+    });
+  }
+
+  /**
+   * Applies per-step debug data from the worker
+   * @param frame The debug frame message
+   */
+  updateFrame(frame: PhysicsWorkerDebugFrameMessage): void {
+    // Sleep state colors
+    for (let i = 0; i < frame.ids.length; i++) {
+      const body = this.bodies.get(frame.ids[i]);
+      const sleepState = frame.sleepStates[i];
+      if (body && body.sleepState !== sleepState) {
+        body.sleepState = sleepState;
+        body.material.color.setHex(SLEEP_COLORS[sleepState] ?? SLEEP_COLORS[0]);
+      }
+    }
+
+    // Contact points and normals
+    const contactCount = frame.contacts.length / 6;
+    const points = new Float32Array(contactCount * 3);
+    const normals = new Float32Array(contactCount * 6);
+    for (let i = 0; i < contactCount; i++) {
+      const c = i * 6;
+      const [x, y, z] = [
+        frame.contacts[c],
+        frame.contacts[c + 1],
+        frame.contacts[c + 2],
+      ];
+      points.set([x, y, z], i * 3);
+      normals.set(
+        [
+          x,
+          y,
+          z,
+          x + frame.contacts[c + 3] * NORMAL_LENGTH,
+          y + frame.contacts[c + 4] * NORMAL_LENGTH,
+          z + frame.contacts[c + 5] * NORMAL_LENGTH,
+        ],
+        i * 6
+      );
+    }
+    this.setPositions(this.contactPoints, points);
+    this.setPositions(this.contactNormals, normals);
+
+    // Bounding boxes
+    const aabbCount = frame.aabbs.length / 6;
+    const edges = new Float32Array(aabbCount * AABB_EDGES.length * 6);
+    let e = 0;
+    for (let i = 0; i < aabbCount; i++) {
+      const b = i * 6;
+      for (const [ax, ay, az, bx, by, bz] of AABB_EDGES) {
+        edges[e++] = frame.aabbs[b + ax * 3];
+        edges[e++] = frame.aabbs[b + 1 + ay * 3];
+        edges[e++] = frame.aabbs[b + 2 + az * 3];
+        edges[e++] = frame.aabbs[b + bx * 3];
+        edges[e++] = frame.aabbs[b + 1 + by * 3];
+        edges[e++] = frame.aabbs[b + 2 + bz * 3];
+      }
+    }
+    this.setPositions(this.aabbLines, edges);
+
+    // Constraint links
+    this.setPositions(this.linkLines, frame.links);
+  }
+
+  /**
+   * Removes everything from the scene and frees GPU resources
+   */
+  dispose(): void {
+    Array.from(this.bodies.keys()).forEach((id) => this.removeBody(id));
+
+    for (const object of [
+      this.contactPoints,
+      this.contactNormals,
+      this.aabbLines,
+      this.linkLines,
+    ]) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+
+    this.scene.remove(this.root);
+  }
+
+  /**
+   * Creates an empty line segments object
+   * @param color Line color
+   */
+  private createLines(color: number): THREE.LineSegments {
+    return new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color, depthTest: false })
+    );
+  }
+
+  /**
+   * Replaces the positions of a points or lines object
+   * @param object The object to update
+   * @param positions New xyz triplets
+   */
+  private setPositions(
+    object: THREE.Points | THREE.LineSegments,
+    positions: Float32Array
+  ): void {
+    object.geometry.setAttribute(
+      "position",
+      new THREE.BufferAttribute(positions, 3)
+    );
+    object.geometry.computeBoundingSphere();
+  }
+
+  /**
+   * Builds a geometry for a collider description
+   * @param shape The collider description
+   */
+  private createGeometry(
+    shape: PhysicsCompoundChildOptions
+  ): THREE.BufferGeometry {
+    switch (shape.type) {
+      case PhysicsShapeType.BOX: {
+        const [x, y, z] = shape.size ?? [1, 1, 1];
+        return new THREE.BoxGeometry(x, y, z);
+      }
+      case PhysicsShapeType.SPHERE:
+        return new THREE.SphereGeometry(shape.radius ?? 0.5, 12, 8);
+      case PhysicsShapeType.PLANE:
+        // Cannon planes face +Z, like PlaneGeometry
+        return new THREE.PlaneGeometry(PLANE_SIZE, PLANE_SIZE, 10, 10);
+      case PhysicsShapeType.TRIMESH: {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute(
+          "position",
+          new THREE.BufferAttribute(shape.vertices ?? new Float32Array(0), 3)
+        );
+        geometry.setIndex(
+          new THREE.BufferAttribute(shape.indices ?? new Uint32Array(0), 1)
+        );
+        return geometry;
+      }
+      default:
+        return new THREE.BufferGeometry();
+    }
+  }
+}
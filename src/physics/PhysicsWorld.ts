@@ -5,9 +5,35 @@ import {
   PhysicsWorkerOutgoingMessage,
   PhysicsShapeType,
   PhysicsBodyProperties,
+  PhysicsBodyType,
+  PhysicsCharacterOptions,
+  PhysicsCharacterState,
+  PhysicsCollisionEvent,
+  PhysicsExplosionOptions,
+  PhysicsForceFieldOptions,
+  PhysicsConstraintOptions,
+  PhysicsHingeMotorOptions,
+  PhysicsMaterialOptions,
+  PhysicsContactMaterialOptions,
+  PhysicsRaycastHit,
+  PhysicsRaycastMode,
+  PhysicsRaycastOptions,
+  PhysicsSnapshot,
+  PhysicsTriggerEvent,
+  PhysicsVehicleInput,
+  PhysicsVehicleOptions,
+  PhysicsWaterEvent,
+  PhysicsWaterOptions,
 } from "./types";
-import CannonDebugger from "cannon-es-debugger";
-import * as CANNON from "cannon-es";
+import { collectShapeBuffers } from "./geometry";
+import { ModelColliderOptions, colliderFromModel } from "./modelColliders";
+import { PhysicsDebugRenderer } from "./PhysicsDebugRenderer";
+import {
+  SharedTransforms,
+  TransformArrays,
+  canShareTransforms,
+} from "./SharedTransforms";
+import { assertSameTopology, decodeWorldState } from "./snapshot";
 
 // Import the worker using Vite's ?worker syntax
 import PhysicsWorker from "../workers/physics.worker.ts?worker";
@@ -15,17 +41,87 @@ import PhysicsWorker from "../workers/physics.worker.ts?worker";
 // Map to store callbacks for body property requests
 type BodyPropsCallback = (props: PhysicsBodyProperties) => void;
 
+// Callback for raycast and shape-cast query results
+type QueryCallback = (hits: PhysicsRaycastHit[]) => void;
+
+// Callback for snapshot requests
+type SnapshotCallback = (snapshot: PhysicsSnapshot) => void;
+
+// Callback for restore requests, with the reason if the worker refused it
+type RestoreCallback = (error?: string) => void;
+
+// Callback for rewind requests
+type RewindCallback = (steps: number) => void;
+
+// Handler for collision events involving a body
+export type CollisionHandler = (event: PhysicsCollisionEvent) => void;
+
+// Handler for trigger overlap events involving a body
+export type TriggerHandler = (event: PhysicsTriggerEvent) => void;
+
+// Handler for bodies entering or leaving a water volume
+export type WaterHandler = (event: PhysicsWaterEvent) => void;
+
+// Simulation timing options
+export interface PhysicsWorldOptions {
+  /** Fixed simulation step in seconds (defaults to 1/60) */
+  fixedTimeStep?: number;
+  /** Maximum fixed steps per frame before time is dropped (defaults to 5) */
+  maxSubSteps?: number;
+  /** Read transforms from shared memory when the page is cross-origin
+   * isolated, instead of a SYNC message per step (defaults to true) */
+  sharedTransforms?: boolean;
+}
+
+// A body's latest synced pose and its pose one step before, used for
+// render interpolation
+interface BodyPose {
+  previousPosition: THREE.Vector3;
+  currentPosition: THREE.Vector3;
+  previousQuaternion: THREE.Quaternion;
+  currentQuaternion: THREE.Quaternion;
+  // Skip interpolation on the first sync at or after this sequence number
+  // (after teleports), or null when no snap is pending
+  snapAt: number | null;
+}
+
 export class PhysicsWorld {
   private worker: Worker;
   private objects: Map<number, THREE.Object3D> = new Map();
   private nextBodyId = 1;
-  private lastUpdateTime = 0;
-  private debugRenderer: any;
+  private constraints: Map<number, PhysicsConstraintOptions> = new Map();
+  private nextConstraintId = 1;
+  private nextForceFieldId = 1;
+  private nextWaterId = 1;
+  private poses: Map<number, BodyPose> = new Map();
+  private fixedTimeStep: number;
+  private maxSubSteps: number;
+  private accumulator = 0;
+  private debugRenderer?: PhysicsDebugRenderer;
   private scene: THREE.Scene;
   private bodyPropsCallbacks: Map<string, BodyPropsCallback> = new Map();
+  private queryCallbacks: Map<string, QueryCallback> = new Map();
+  private snapshotCallbacks: Map<string, SnapshotCallback> = new Map();
+  private restoreCallbacks: Map<string, RestoreCallback> = new Map();
+  private rewindCallbacks: Map<string, RewindCallback> = new Map();
+  private collisionHandlers: Map<number, Set<CollisionHandler>> = new Map();
+  private triggerHandlers: Map<number, Set<TriggerHandler>> = new Map();
+  private waterHandlers: Map<number, Set<WaterHandler>> = new Map();
+  private characterStates: Map<number, PhysicsCharacterState> = new Map();
+  private wheels: Map<number, THREE.Object3D[]> = new Map();
+  private wheelPoses: Map<number, BodyPose[]> = new Map();
+  private sharedTransforms: SharedTransforms | null = null;
+  // Numbers updates, restores and rewinds so syncs can be matched to them
+  private sequence = 0;
 
-  constructor(scene: THREE.Scene, private debugEnabled = false) {
+  constructor(
+    scene: THREE.Scene,
+    private debugEnabled = false,
+    options: PhysicsWorldOptions = {}
+  ) {
     this.scene = scene;
+    this.fixedTimeStep = options.fixedTimeStep ?? 1 / 60;
+    this.maxSubSteps = options.maxSubSteps ?? 5;
     this.worker = new PhysicsWorker();
     this.worker.onmessage = this.handleMessage.bind(this);
 
@@ -34,40 +130,65 @@ export class PhysicsWorld {
       type: PhysicsWorkerMessageType.INIT,
       gravity: [0, -9.82, 0], // Default gravity
       iterations: 10,
+      sharedTransforms:
+        (options.sharedTransforms ?? true) && canShareTransforms(),
     });
 
     // Set up debug renderer if enabled
     if (debugEnabled) {
-      // We need a fake world for the debugger
-      const fakeWorld = new CANNON.World();
-      fakeWorld.gravity.set(0, -9.82, 0);
-
-      // Use assertion to bypass typechecking for the debugger
-      this.debugRenderer = (CannonDebugger as any)(scene, {
-        world: fakeWorld,
-      });
+      this.setDebug(true);
     }
   }
 
   // Add an object to the physics world
+  // Geometry arrays that own their whole buffer are transferred, not copied,
+  // and can't be used afterwards; pass a copy to keep using one
   addObject(object: THREE.Object3D, options: PhysicsObjectOptions): number {
     const id = this.nextBodyId++;
 
     this.objects.set(id, object);
 
     // Send to worker
-    this.worker.postMessage({
-      type: PhysicsWorkerMessageType.ADD_BODY,
-      id,
-      options,
-    });
+    this.worker.postMessage(
+      {
+        type: PhysicsWorkerMessageType.ADD_BODY,
+        id,
+        options,
+      },
+      collectShapeBuffers(options)
+    );
 
     return id;
   }
 
+  // Add a body built from a loaded model's collider meshes or glTF extras,
+  // synced to the model's root (see colliderFromModel for the conventions)
+  addModel(model: THREE.Object3D, options: ModelColliderOptions = {}): number {
+    const bodyOptions = colliderFromModel(model, options);
+    if (!bodyOptions) {
+      throw new Error(`Model "${model.name}" declares no collider`);
+    }
+
+    return this.addObject(model, bodyOptions);
+  }
+
   // Remove an object from the physics world
   removeObject(id: number): void {
     this.objects.delete(id);
+    this.poses.delete(id);
+    this.debugRenderer?.removeBody(id);
+    this.characterStates.delete(id);
+    this.wheels.delete(id);
+    this.wheelPoses.delete(id);
+    this.collisionHandlers.delete(id);
+    this.triggerHandlers.delete(id);
+
+    // The worker drops constraints attached to the body on its own
+    this.constraints.forEach((options, constraintId) => {
+      if (options.bodyA === id || options.bodyB === id) {
+        this.constraints.delete(constraintId);
+      }
+    });
 
     this.worker.postMessage({
       type: PhysicsWorkerMessageType.REMOVE_BODY,
@@ -75,6 +196,207 @@ export class PhysicsWorld {
     });
   }
 
+  // Add a capsule character simulated by the worker
+  // Remove it with removeObject like any other body
+  addCharacter(
+    object: THREE.Object3D,
+    options: PhysicsCharacterOptions
+  ): number {
+    const id = this.nextBodyId++;
+
+    this.objects.set(id, object);
+
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.ADD_CHARACTER,
+      id,
+      options,
+    });
+
+    return id;
+  }
+
+  // Set the move direction and jump press of a character
+  setCharacterInput(
+    id: number,
+    move: [number, number, number],
+    jump = false
+  ): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.SET_CHARACTER_INPUT,
+      id,
+      move,
+      jump,
+    });
+  }
+
+  // Get the latest synced state of a character
+  getCharacterState(id: number): PhysicsCharacterState | undefined {
+    return this.characterStates.get(id);
+  }
+
+  // Add a raycast vehicle; the chassis is synced to chassisObject and each
+  // wheel to the matching entry of wheelObjects, in world space
+  // Remove it with removeObject on the chassis ID
+  addVehicle(
+    chassisObject: THREE.Object3D,
+    wheelObjects: THREE.Object3D[],
+    options: PhysicsVehicleOptions
+  ): number {
+    const id = this.nextBodyId++;
+
+    this.objects.set(id, chassisObject);
+    this.wheels.set(id, wheelObjects);
+
+    this.worker.postMessage(
+      {
+        type: PhysicsWorkerMessageType.ADD_VEHICLE,
+        id,
+        options,
+      },
+      collectShapeBuffers(options.chassis)
+    );
+
+    return id;
+  }
+
+  // Set the steering, engine force and brake of a vehicle
+  // Scalars steer the front wheels, drive the rear wheels and brake all of
+  // them; arrays give one value per wheel
+  setVehicleInput(id: number, input: PhysicsVehicleInput): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.SET_VEHICLE_INPUT,
+      id,
+      input,
+    });
+  }
+
+  // Apply a radial impulse to every body within the explosion's radius
+  explode(options: PhysicsExplosionOptions): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.EXPLODE,
+      options,
+    });
+  }
+
+  // Add a wind, attractor or gravity region applied every step
+  addForceField(options: PhysicsForceFieldOptions): number {
+    const id = this.nextForceFieldId++;
+    this.updateForceField(id, options);
+    return id;
+  }
+
+  // Replace the settings of a force field, e.g. to move or retune it
+  updateForceField(id: number, options: PhysicsForceFieldOptions): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.ADD_FORCE_FIELD,
+      id,
+      options,
+    });
+  }
+
+  // Remove a force field
+  removeForceField(id: number): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.REMOVE_FORCE_FIELD,
+      id,
+    });
+  }
+
+  // Add a pool or ocean that floats dynamic bodies inside it
+  // Use waterHeight from ./water to shape the visible surface to match
+  addWater(options: PhysicsWaterOptions): number {
+    const id = this.nextWaterId++;
+    this.updateWater(id, options);
+    return id;
+  }
+
+  // Replace the settings of a water volume, e.g. to raise its level
+  updateWater(id: number, options: PhysicsWaterOptions): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.ADD_WATER,
+      id,
+      options,
+    });
+  }
+
+  // Remove a water volume
+  removeWater(id: number): void {
+    this.waterHandlers.delete(id);
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.REMOVE_WATER,
+      id,
+    });
+  }
+
+  // Register a named material that bodies can reference in their options
+  // Registering an existing name updates its properties
+  addMaterial(name: string, options: PhysicsMaterialOptions): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.ADD_MATERIAL,
+      name,
+      options,
+    });
+  }
+
+  // Define how two named materials interact when they touch
+  // Values override the materials' own friction and restitution for the pair
+  addContactMaterial(
+    materialA: string,
+    materialB: string,
+    options: PhysicsContactMaterialOptions
+  ): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.ADD_CONTACT_MATERIAL,
+      materialA,
+      materialB,
+      options,
+    });
+  }
+
+  // Connect two objects with a constraint or spring
+  // Like the worker, skip a constraint whose bodies are gone, so both sides
+  // agree on which constraints exist
+  addConstraint(options: PhysicsConstraintOptions): number {
+    const id = this.nextConstraintId++;
+
+    const missing = [options.bodyA, options.bodyB].find(
+      (bodyId) => !this.objects.has(bodyId)
+    );
+    if (missing !== undefined) {
+      console.warn(`Constraint ${id} references missing body ${missing}`);
+      return id;
+    }
+
+    this.constraints.set(id, options);
+
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.ADD_CONSTRAINT,
+      id,
+      options,
+    });
+
+    return id;
+  }
+
+  // Remove a constraint or spring
+  removeConstraint(id: number): void {
+    if (!this.constraints.delete(id)) return;
+
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.REMOVE_CONSTRAINT,
+      id,
+    });
+  }
+
+  // Enable, disable or drive the motor of a hinge constraint
+  setHingeMotor(id: number, motor: PhysicsHingeMotorOptions): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.SET_HINGE_MOTOR,
+      id,
+      motor,
+    });
+  }
+
   // Apply a force to an object
   applyForce(
     id: number,
@@ -105,6 +427,9 @@ export class PhysicsWorld {
 
   // Set the position of an object
   setPosition(id: number, position: [number, number, number]): void {
+    // Don't interpolate across the teleport; the next update applies it
+    this.snapPose(id, this.sequence + 1);
+
     this.worker.postMessage({
       type: PhysicsWorkerMessageType.SET_POSITION,
       id,
@@ -121,33 +446,197 @@ export class PhysicsWorld {
     });
   }
 
-  // Update the physics world
-  update(): void {
-    const now = performance.now();
-    let dt = (now - this.lastUpdateTime) / 1000;
+  // Set the rotation of an object
+  setRotation(id: number, quaternion: [number, number, number, number]): void {
+    // Don't interpolate across the snap; the next update applies it
+    this.snapPose(id, this.sequence + 1);
+
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.SET_ROTATION,
+      id,
+      quaternion,
+    });
+  }
 
-    // Cap the delta time to avoid large jumps
-    if (dt > 1 / 30) dt = 1 / 30;
+  // Set the angular velocity of an object
+  setAngularVelocity(
+    id: number,
+    angularVelocity: [number, number, number]
+  ): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.SET_ANGULAR_VELOCITY,
+      id,
+      angularVelocity,
+    });
+  }
 
-    this.lastUpdateTime = now;
+  // Set the mass of an object (zero makes non-kinematic bodies static)
+  setMass(id: number, mass: number): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.SET_MASS,
+      id,
+      mass,
+    });
+  }
 
+  // Switch an object between dynamic, static and kinematic
+  // Kinematic bodies keep their mass, so switching back to dynamic restores it
+  setBodyType(id: number, bodyType: PhysicsBodyType): void {
     this.worker.postMessage({
-      type: PhysicsWorkerMessageType.UPDATE,
-      dt,
+      type: PhysicsWorkerMessageType.SET_BODY_TYPE,
+      id,
+      bodyType,
     });
   }
 
+  // Apply a torque to an object
+  applyTorque(id: number, torque: [number, number, number]): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.APPLY_TORQUE,
+      id,
+      torque,
+    });
+  }
+
+  // Wake up a sleeping object
+  wakeUp(id: number): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.WAKE_UP,
+      id,
+    });
+  }
+
+  // Put an object to sleep until something disturbs it
+  sleep(id: number): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.SLEEP,
+      id,
+    });
+  }
+
+  // Length of one simulation step in seconds
+  get timeStep(): number {
+    return this.fixedTimeStep;
+  }
+
+  // Update the physics world
+  // Runs as many fixed steps as the elapsed time allows, then interpolates
+  // objects across the latest synced step by the leftover fraction
+  update(dt: number): void {
+    this.accumulator += dt;
+
+    // The epsilon keeps a delta of exactly one step from rounding down
+    let steps = Math.floor(this.accumulator / this.fixedTimeStep + 1e-6);
+    if (steps > this.maxSubSteps) {
+      // Drop the backlog rather than spiral trying to catch up
+      steps = this.maxSubSteps;
+      this.accumulator = 0;
+    } else {
+      this.accumulator = Math.max(
+        0,
+        this.accumulator - steps * this.fixedTimeStep
+      );
+    }
+
+    if (steps > 0) {
+      this.worker.postMessage({
+        type: PhysicsWorkerMessageType.UPDATE,
+        dt: this.fixedTimeStep,
+        steps,
+        sequence: ++this.sequence,
+      });
+    }
+
+    // Pick up the latest frame the worker published to shared memory
+    this.sharedTransforms?.read((bodies, wheels, sequence) => {
+      this.updateObjects(bodies, sequence);
+      this.updateWheels(wheels, sequence);
+    });
+
+    this.interpolateObjects(this.accumulator / this.fixedTimeStep);
+
+    if (this.debugEnabled && this.debugRenderer) {
+      this.debugRenderer.updatePoses((id) => this.objects.get(id));
+    }
+  }
+
   // Handle messages from the worker
   private handleMessage(event: MessageEvent<any>): void {
     const message = event.data;
 
     switch (message.type) {
       case PhysicsWorkerMessageType.SYNC:
-        this.updateObjects(
-          message.bodies.positions,
-          message.bodies.quaternions
+        this.updateObjects(message.bodies, message.sequence);
+        if (message.wheels) {
+          this.updateWheels(
+            { ...message.wheels, ids: message.wheels.vehicleIds },
+            message.sequence
+          );
+        }
+        break;
+      case PhysicsWorkerMessageType.SHARED_TRANSFORMS:
+        // The worker outgrew the previous buffer and stopped writing to it
+        this.sharedTransforms = new SharedTransforms(
+          message.buffer,
+          message.bodyCapacity,
+          message.wheelCapacity
         );
         break;
+      case PhysicsWorkerMessageType.COLLISIONS:
+        this.dispatchCollisions(message.events);
+        break;
+      case PhysicsWorkerMessageType.TRIGGERS:
+        this.dispatchTriggers(message.events);
+        break;
+      case PhysicsWorkerMessageType.WATER_EVENTS:
+        for (const event of message.events as PhysicsWaterEvent[]) {
+          this.waterHandlers.get(event.waterId)?.forEach((handler) => {
+            handler(event);
+          });
+        }
+        break;
+      case PhysicsWorkerMessageType.CHARACTERS:
+        for (const state of message.states as PhysicsCharacterState[]) {
+          if (this.objects.has(state.id)) {
+            this.characterStates.set(state.id, state);
+          }
+        }
+        break;
+      case PhysicsWorkerMessageType.DEBUG_SHAPES:
+        this.debugRenderer?.setShapes(message.bodies);
+        break;
+      case PhysicsWorkerMessageType.DEBUG_FRAME:
+        this.debugRenderer?.updateFrame(message);
+        break;
+      case PhysicsWorkerMessageType.RAYCAST:
+      case PhysicsWorkerMessageType.SPHERE_CAST:
+        const queryCallback = this.queryCallbacks.get(message.requestId);
+        if (queryCallback) {
+          queryCallback(message.hits);
+          this.queryCallbacks.delete(message.requestId);
+        }
+        break;
+      case PhysicsWorkerMessageType.SNAPSHOT:
+        const snapshotCallback = this.snapshotCallbacks.get(message.requestId);
+        if (snapshotCallback) {
+          snapshotCallback(message.snapshot);
+          this.snapshotCallbacks.delete(message.requestId);
+        }
+        break;
+      case PhysicsWorkerMessageType.RESTORE:
+        const restoreCallback = this.restoreCallbacks.get(message.requestId);
+        if (restoreCallback) {
+          restoreCallback(message.error);
+          this.restoreCallbacks.delete(message.requestId);
+        }
+        break;
+      case PhysicsWorkerMessageType.REWIND:
+        const rewindCallback = this.rewindCallbacks.get(message.requestId);
+        if (rewindCallback) {
+          rewindCallback(message.steps);
+          this.rewindCallbacks.delete(message.requestId);
+        }
+        break;
       case PhysicsWorkerMessageType.GET_BODY_PROPS:
         const callback = this.bodyPropsCallbacks.get(message.requestId);
         if (callback) {
@@ -160,31 +649,160 @@ export class PhysicsWorld {
     }
   }
 
-  // Update object positions and rotations
-  private updateObjects(
-    positions: Float32Array,
-    quaternions: Float32Array
-  ): void {
-    let i = 0;
-    this.objects.forEach((object) => {
-      if (i * 3 < positions.length && i * 4 < quaternions.length) {
-        // Update position
-        object.position.set(
-          positions[i * 3],
-          positions[i * 3 + 1],
-          positions[i * 3 + 2]
-        );
+  // Route collision events to the handlers of both bodies involved
+  private dispatchCollisions(events: PhysicsCollisionEvent[]): void {
+    for (const event of events) {
+      this.collisionHandlers.get(event.bodyA)?.forEach((handler) => {
+        handler(event);
+      });
 
-        // Update quaternion
-        object.quaternion.set(
-          quaternions[i * 4],
-          quaternions[i * 4 + 1],
-          quaternions[i * 4 + 2],
-          quaternions[i * 4 + 3]
-        );
+      const handlersB = this.collisionHandlers.get(event.bodyB);
+      if (handlersB) {
+        // Mirror the event so each handler sees its own body as bodyA
+        const mirrored: PhysicsCollisionEvent = {
+          ...event,
+          bodyA: event.bodyB,
+          bodyB: event.bodyA,
+          normal: [-event.normal[0], -event.normal[1], -event.normal[2]],
+        };
+        handlersB.forEach((handler) => handler(mirrored));
       }
-      i++;
+    }
+  }
+
+  // Route trigger events to the handlers of the trigger and the other body
+  private dispatchTriggers(events: PhysicsTriggerEvent[]): void {
+    for (const event of events) {
+      this.triggerHandlers.get(event.triggerId)?.forEach((handler) => {
+        handler(event);
+      });
+      this.triggerHandlers.get(event.otherId)?.forEach((handler) => {
+        handler(event);
+      });
+    }
+  }
+
+  // Store the newly synced poses of each object
+  // Each slot carries its body ID, so removals and out-of-order adds in the
+  // worker can never hand one object another body's transform
+  private updateObjects(transforms: TransformArrays, sequence: number): void {
+    for (let i = 0; i < transforms.count; i++) {
+      // Skip bodies removed on this side while the sync was in flight
+      const id = transforms.ids[i];
+      if (!this.objects.has(id)) continue;
+
+      let pose = this.poses.get(id);
+      if (!pose) {
+        pose = this.createPose();
+        this.poses.set(id, pose);
+      }
+
+      this.advancePose(pose, transforms, i, sequence);
+    }
+  }
+
+  // Store the newly synced wheel poses of each vehicle
+  // Wheels arrive grouped by vehicle, in the order they were added
+  // The transforms' IDs are those of the vehicles
+  private updateWheels(transforms: TransformArrays, sequence: number): void {
+    const vehicleIds = transforms.ids;
+    let wheelIndex = 0;
+    for (let i = 0; i < transforms.count; i++) {
+      const id = vehicleIds[i];
+      wheelIndex = i > 0 && vehicleIds[i - 1] === id ? wheelIndex + 1 : 0;
+      if (!this.wheels.has(id)) continue;
+
+      let poses = this.wheelPoses.get(id);
+      if (!poses) {
+        poses = [];
+        this.wheelPoses.set(id, poses);
+      }
+
+      let pose = poses[wheelIndex];
+      if (!pose) {
+        pose = this.createPose();
+        poses[wheelIndex] = pose;
+      }
+
+      this.advancePose(pose, transforms, i, sequence);
+    }
+  }
+
+  // Blend every object across its latest synced step
+  private interpolateObjects(alpha: number): void {
+    this.poses.forEach((pose, id) => {
+      const object = this.objects.get(id);
+      if (object) this.applyPose(object, pose, alpha);
     });
+
+    this.wheelPoses.forEach((poses, id) => {
+      const wheels = this.wheels.get(id);
+      if (!wheels) return;
+
+      poses.forEach((pose, index) => {
+        const wheel = wheels[index];
+        if (wheel) this.applyPose(wheel, pose, alpha);
+      });
+    });
+  }
+
+  // Create an empty pose that snaps on its first sync
+  private createPose(): BodyPose {
+    return {
+      previousPosition: new THREE.Vector3(),
+      currentPosition: new THREE.Vector3(),
+      previousQuaternion: new THREE.Quaternion(),
+      currentQuaternion: new THREE.Quaternion(),
+      snapAt: 0,
+    };
+  }
+
+  // Read a pose's latest transform, and the one a step before it, from sync
+  // arrays; a sync can cover several steps, so the previous transform comes
+  // from the worker rather than the last sync
+  private advancePose(
+    pose: BodyPose,
+    transforms: TransformArrays,
+    index: number,
+    sequence: number
+  ): void {
+    // Update position
+    pose.previousPosition.fromArray(transforms.previousPositions, index * 3);
+    pose.currentPosition.fromArray(transforms.positions, index * 3);
+
+    // Update quaternion
+    pose.previousQuaternion.fromArray(
+      transforms.previousQuaternions,
+      index * 4
+    );
+    pose.currentQuaternion.fromArray(transforms.quaternions, index * 4);
+
+    // New and teleported bodies have no meaningful previous pose; a sync
+    // that was already in flight still has the old one, so wait for the
+    // first sync that includes the snap
+    if (pose.snapAt !== null && sequence >= pose.snapAt) {
+      pose.previousPosition.copy(pose.currentPosition);
+      pose.previousQuaternion.copy(pose.currentQuaternion);
+      pose.snapAt = null;
+    }
+  }
+
+  // Place an object between the previous and current pose
+  private applyPose(
+    object: THREE.Object3D,
+    pose: BodyPose,
+    alpha: number
+  ): void {
+    object.position.lerpVectors(
+      pose.previousPosition,
+      pose.currentPosition,
+      alpha
+    );
+    object.quaternion.slerpQuaternions(
+      pose.previousQuaternion,
+      pose.currentQuaternion,
+      alpha
+    );
   }
 
   // Helper method to create a floor
@@ -279,9 +897,91 @@ export class PhysicsWorld {
     });
   }
 
+  /**
+   * Listen for collisions involving a physics body
+   * Events passed to the handler always list the given body as bodyA
+   * @param id The physics body ID
+   * @param handler Called for every collision begin/end involving the body
+   * @returns A function that removes the handler
+   */
+  onCollision(id: number, handler: CollisionHandler): () => void {
+    let handlers = this.collisionHandlers.get(id);
+    if (!handlers) {
+      handlers = new Set();
+      this.collisionHandlers.set(id, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      const current = this.collisionHandlers.get(id);
+      if (current) {
+        current.delete(handler);
+        if (current.size === 0) this.collisionHandlers.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Listen for trigger overlaps involving a physics body
+   * Fires both for the trigger itself and for bodies entering or leaving it
+   * @param id The physics body ID
+   * @param handler Called for every enter/exit involving the body
+   * @returns A function that removes the handler
+   */
+  onTrigger(id: number, handler: TriggerHandler): () => void {
+    let handlers = this.triggerHandlers.get(id);
+    if (!handlers) {
+      handlers = new Set();
+      this.triggerHandlers.set(id, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      const current = this.triggerHandlers.get(id);
+      if (current) {
+        current.delete(handler);
+        if (current.size === 0) this.triggerHandlers.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Listen for bodies entering or leaving a water volume, e.g. for splashes
+   * @param id The water volume ID
+   * @param handler Called for every enter/exit of the water
+   * @returns A function that removes the handler
+   */
+  onWater(id: number, handler: WaterHandler): () => void {
+    let handlers = this.waterHandlers.get(id);
+    if (!handlers) {
+      handlers = new Set();
+      this.waterHandlers.set(id, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      const current = this.waterHandlers.get(id);
+      if (current) {
+        current.delete(handler);
+        if (current.size === 0) this.waterHandlers.delete(id);
+      }
+    };
+  }
+
   // Enable or disable debug renderer
+  // The worker only sends collider shapes and debug frames while enabled
   setDebug(enabled: boolean): void {
     this.debugEnabled = enabled;
+
+    if (enabled && !this.debugRenderer) {
+      this.debugRenderer = new PhysicsDebugRenderer(this.scene);
+    }
+    this.debugRenderer?.setVisible(enabled);
+
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.SET_DEBUG,
+      enabled,
+    });
   }
 
   /**
@@ -302,4 +1002,224 @@ export class PhysicsWorld {
       });
     });
   }
+
+  /**
+   * Cast a ray and find the closest body it hits
+   * @param from World-space ray origin
+   * @param to World-space ray end point
+   * @param options Collision group filters
+   * @returns A promise that resolves with the closest hit, or null if nothing was hit
+   */
+  raycastClosest(
+    from: [number, number, number],
+    to: [number, number, number],
+    options?: PhysicsRaycastOptions
+  ): Promise<PhysicsRaycastHit | null> {
+    return new Promise((resolve) => {
+      const requestId = crypto.randomUUID();
+      this.queryCallbacks.set(requestId, (hits) => resolve(hits[0] ?? null));
+
+      this.worker.postMessage({
+        type: PhysicsWorkerMessageType.RAYCAST,
+        mode: PhysicsRaycastMode.CLOSEST,
+        from,
+        to,
+        options,
+        requestId,
+      });
+    });
+  }
+
+  /**
+   * Cast a ray and find every body it hits
+   * @param from World-space ray origin
+   * @param to World-space ray end point
+   * @param options Collision group filters
+   * @returns A promise that resolves with all hits, sorted by distance
+   */
+  raycastAll(
+    from: [number, number, number],
+    to: [number, number, number],
+    options?: PhysicsRaycastOptions
+  ): Promise<PhysicsRaycastHit[]> {
+    return new Promise((resolve) => {
+      const requestId = crypto.randomUUID();
+      this.queryCallbacks.set(requestId, resolve);
+
+      this.worker.postMessage({
+        type: PhysicsWorkerMessageType.RAYCAST,
+        mode: PhysicsRaycastMode.ALL,
+        from,
+        to,
+        options,
+        requestId,
+      });
+    });
+  }
+
+  /**
+   * Sweep a sphere along a segment and find the first body it touches
+   * @param from World-space start of the sphere's centre
+   * @param to World-space end of the sphere's centre
+   * @param radius Sphere radius
+   * @param options Collision group filters
+   * @returns A promise that resolves with the first hit, or null if nothing was hit.
+   * The hit distance is how far the centre travels before contact.
+   */
+  sphereCast(
+    from: [number, number, number],
+    to: [number, number, number],
+    radius: number,
+    options?: PhysicsRaycastOptions
+  ): Promise<PhysicsRaycastHit | null> {
+    return new Promise((resolve) => {
+      const requestId = crypto.randomUUID();
+      this.queryCallbacks.set(requestId, (hits) => resolve(hits[0] ?? null));
+
+      this.worker.postMessage({
+        type: PhysicsWorkerMessageType.SPHERE_CAST,
+        from,
+        to,
+        radius,
+        options,
+        requestId,
+      });
+    });
+  }
+
+  /**
+   * Capture the state of every body and constraint in the world
+   * Bodies and constraints are matched by ID on restore, so a snapshot can
+   * only be restored while the world has exactly the same ones. Character
+   * motors and water volumes are not captured
+   * @returns A promise that resolves with the encoded snapshot
+   */
+  snapshot(): Promise<PhysicsSnapshot> {
+    return new Promise((resolve) => {
+      const requestId = crypto.randomUUID();
+      this.snapshotCallbacks.set(requestId, resolve);
+
+      this.worker.postMessage({
+        type: PhysicsWorkerMessageType.SNAPSHOT,
+        requestId,
+      });
+    });
+  }
+
+  /**
+   * Restore the world to a previously captured snapshot
+   * The snapshot is copied, so it can be restored again later
+   * @param snapshot A snapshot from snapshot()
+   * @returns A promise that resolves once the world is restored, or rejects
+   * if bodies or constraints were added or removed since it was taken
+   */
+  restore(snapshot: PhysicsSnapshot): Promise<void> {
+    return new Promise((resolve, reject) => {
+      // Throwing here rejects before anything is sent
+      assertSameTopology(
+        decodeWorldState(snapshot.data),
+        this.objects.keys(),
+        this.constraints.keys()
+      );
+
+      const sequence = ++this.sequence;
+      this.snapAllPoses(sequence);
+
+      const requestId = crypto.randomUUID();
+      this.restoreCallbacks.set(requestId, (error) => {
+        if (error) {
+          reject(new Error(error));
+        } else {
+          resolve();
+        }
+      });
+
+      this.worker.postMessage({
+        type: PhysicsWorkerMessageType.RESTORE,
+        snapshot,
+        requestId,
+        sequence,
+      });
+    });
+  }
+
+  /**
+   * Keep the state before each of the last N steps so the world can be rewound
+   * Adding or removing bodies or constraints discards the recorded steps
+   * @param steps Number of steps to keep, 0 disables recording
+   */
+  setRewindBuffer(steps: number): void {
+    this.worker.postMessage({
+      type: PhysicsWorkerMessageType.SET_REWIND_BUFFER,
+      size: steps,
+    });
+  }
+
+  /**
+   * Step the world back using the rewind buffer
+   * @param steps Number of steps to go back
+   * @returns A promise that resolves with the number of steps actually rewound
+   */
+  rewind(steps: number): Promise<number> {
+    const sequence = ++this.sequence;
+    this.snapAllPoses(sequence);
+
+    return new Promise((resolve) => {
+      const requestId = crypto.randomUUID();
+      this.rewindCallbacks.set(requestId, resolve);
+
+      this.worker.postMessage({
+        type: PhysicsWorkerMessageType.REWIND,
+        steps,
+        requestId,
+        sequence,
+      });
+    });
+  }
+
+  /**
+   * Stop the physics worker and remove the debug renderer
+   * The world can't be used afterwards; pending queries never resolve
+   */
+  dispose(): void {
+    this.worker.terminate();
+    // Dropping the channel lets its shared memory be collected
+    this.sharedTransforms = null;
+
+    this.debugRenderer?.dispose();
+    this.debugRenderer = undefined;
+    this.debugEnabled = false;
+
+    this.objects.clear();
+    this.poses.clear();
+    this.wheels.clear();
+    this.wheelPoses.clear();
+    this.collisionHandlers.clear();
+    this.triggerHandlers.clear();
+    this.waterHandlers.clear();
+  }
+
+  // Skip interpolation for an object and its wheels on the first sync at or
+  // after a sequence number
+  private snapPose(id: number, sequence: number): void {
+    const pose = this.poses.get(id);
+    if (pose) pose.snapAt = sequence;
+
+    this.wheelPoses.get(id)?.forEach((wheelPose) => {
+      wheelPose.snapAt = sequence;
+    });
+  }
+
+  // Skip interpolation for every object on the first sync at or after a
+  // sequence number
+  private snapAllPoses(sequence: number): void {
+    this.poses.forEach((pose) => {
+      pose.snapAt = sequence;
+    });
+    this.wheelPoses.forEach((poses) => {
+      poses.forEach((pose) => {
+        pose.snapAt = sequence;
+      });
+    });
+  }
 }
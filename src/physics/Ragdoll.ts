@@ -0,0 +1,511 @@
+import * as THREE from "three";
+import { PhysicsWorld } from "./PhysicsWorld";
+import {
+  PhysicsBodyType,
+  PhysicsConstraintType,
+  PhysicsMaterialOptions,
+  PhysicsShapeType,
+} from "./types";
+
+/**
+ * Per-bone overrides for a ragdoll
+ */
+export interface RagdollBoneOptions {
+  /** Name of the bone */
+  name: string;
+  /** Capsule radius (defaults to a fraction of the segment length) */
+  radius?: number;
+  /** Mass of this segment (defaults to a share of the total by length) */
+  mass?: number;
+  /** Cone half-angle of the joint to the parent segment, in radians */
+  coneAngle?: number;
+  /** Twist limit of the joint to the parent segment, in radians */
+  twistAngle?: number;
+}
+
+/**
+ * Ragdoll configuration options
+ */
+export interface RagdollOptions {
+  /** Bones to simulate (defaults to every bone with a child bone) */
+  bones?: (string | RagdollBoneOptions)[];
+  /** Total mass shared between segments by length (defaults to 60) */
+  mass?: number;
+  /** Capsule radius as a fraction of segment length (defaults to 0.2) */
+  radiusScale?: number;
+  /** Default cone half-angle of every joint (defaults to 45 degrees) */
+  coneAngle?: number;
+  /** Default twist limit of every joint (defaults to 20 degrees) */
+  twistAngle?: number;
+  /** Named material or inline values for every segment */
+  material?: string | PhysicsMaterialOptions;
+  /** Collision group of every segment */
+  collisionFilterGroup?: number;
+  /** Collision mask of every segment */
+  collisionFilterMask?: number;
+}
+
+/**
+ * A simulated bone and the capsule body that drives it
+ */
+interface RagdollPart {
+  bone: THREE.Bone;
+  bodyId: number;
+  /** Object the physics world syncs the body pose to */
+  proxy: THREE.Object3D;
+  /** Nearest simulated ancestor */
+  parent: RagdollPart | null;
+  /**
+   * Rest-pose transform of the bone's parent relative to the simulated
+   * ancestor's bone, chaining any bones in between that aren't simulated
+   */
+  parentOffset: THREE.Matrix4;
+  /** Whether the bone's own parent is simulated, so only its rotation moves */
+  keepsLength: boolean;
+  /** Bone world transform relative to the body */
+  boneOffset: THREE.Matrix4;
+  /** Bone world transform the physics pose implies, for child parts */
+  physicsWorld: THREE.Matrix4;
+  /** Local pose captured when physics hands control back to animation */
+  frozenPosition: THREE.Vector3;
+  frozenQuaternion: THREE.Quaternion;
+  /** Body position last sent while following the animation */
+  lastPosition: THREE.Vector3;
+  /** Velocity of the animated pose, given to the body when activated */
+  velocity: THREE.Vector3;
+}
+
+/** Local Y, the axis capsules are built along */
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Turns the skeleton of a skinned mesh into capsule bodies linked by
+ * cone-twist joints, and blends the bones between animation and physics
+ *
+ * While inactive the bodies are kinematic and follow the animated bones,
+ * so they push other bodies around and start moving with the animation's
+ * velocity when activated. Call update() every frame after the animation
+ * mixer has posed the skeleton.
+ */
+export class Ragdoll {
+  /** Simulated bones, parents before children */
+  private parts: RagdollPart[] = [];
+
+  /** Joint constraint IDs */
+  private constraintIds: number[] = [];
+
+  /** Whether the bodies are simulated rather than following the animation */
+  private active = false;
+
+  /** How much of the physics pose is applied to the bones (0 to 1) */
+  private weight = 0;
+
+  /** Weight being blended towards */
+  private targetWeight = 0;
+
+  /** Weight change per second */
+  private blendSpeed = Infinity;
+
+  /**
+   * Creates the ragdoll's bodies and joints in the skeleton's current pose,
+   * so pose it first, e.g. in its rest pose
+   * @param physics The physics world
+   * @param mesh The skinned mesh whose skeleton to simulate
+   * @param options Ragdoll configuration
+   */
+  constructor(
+    private physics: PhysicsWorld,
+    mesh: THREE.SkinnedMesh,
+    options: RagdollOptions = {}
+  ) {
+    const overrides = new Map<string, RagdollBoneOptions>();
+    options.bones?.forEach((bone) => {
+      const boneOptions = typeof bone === "string" ? { name: bone } : bone;
+      overrides.set(boneOptions.name, boneOptions);
+    });
+
+    // Walk from the root bones so parents are always created first
+    const bones: THREE.Bone[] = [];
+    for (const root of this.findRootBones(mesh.skeleton)) {
+      root.updateWorldMatrix(true, true);
+      root.traverse((child) => {
+        if (!(child instanceof THREE.Bone)) return;
+        if (options.bones && !overrides.has(child.name)) return;
+        if (this.findSegmentEnd(child)) bones.push(child);
+      });
+    }
+
+    // Segments run from each bone to its main child
+    const segments = bones.map((bone) => {
+      const head = bone.getWorldPosition(new THREE.Vector3());
+      const tail = this.findSegmentEnd(bone)!.getWorldPosition(
+        new THREE.Vector3()
+      );
+      return { bone, head, tail, length: head.distanceTo(tail) };
+    });
+    const totalLength = segments.reduce((sum, s) => sum + s.length, 0);
+
+    const partsByBone = new Map<THREE.Bone, RagdollPart>();
+    for (const { bone, head, tail, length } of segments) {
+      if (length === 0) continue;
+      const boneOptions = overrides.get(bone.name);
+
+      const radius =
+        boneOptions?.radius ?? length * (options.radiusScale ?? 0.2);
+      const mass =
+        boneOptions?.mass ??
+        ((options.mass ?? 60) * length) / Math.max(totalLength, 1e-6);
+
+      // Capsule centered on the segment, its Y axis along the bone
+      const direction = tail.clone().sub(head).normalize();
+      const position = head.clone().add(tail).multiplyScalar(0.5);
+      const quaternion = new THREE.Quaternion().setFromUnitVectors(
+        UP,
+        direction
+      );
+      const bodyMatrix = new THREE.Matrix4().compose(
+        position,
+        quaternion,
+        new THREE.Vector3(1, 1, 1)
+      );
+
+      const proxy = new THREE.Object3D();
+      proxy.position.copy(position);
+      proxy.quaternion.copy(quaternion);
+
+      const bodyId = physics.addObject(proxy, {
+        type: PhysicsShapeType.CAPSULE,
+        radius,
+        height: Math.max(length, radius * 2),
+        mass,
+        bodyType: PhysicsBodyType.KINEMATIC,
+        position: position.toArray() as [number, number, number],
+        quaternion: quaternion.toArray() as [number, number, number, number],
+        material: options.material,
+        collisionFilterGroup: options.collisionFilterGroup,
+        collisionFilterMask: options.collisionFilterMask,
+      });
+
+      const parent = this.findParentPart(bone, partsByBone);
+      const parentOffset = new THREE.Matrix4();
+      if (parent && bone.parent) {
+        parentOffset
+          .copy(parent.bone.matrixWorld)
+          .invert()
+          .multiply(bone.parent.matrixWorld);
+      }
+      const part: RagdollPart = {
+        bone,
+        bodyId,
+        proxy,
+        parent,
+        parentOffset,
+        keepsLength: parent !== null && bone.parent === parent.bone,
+        boneOffset: bodyMatrix.clone().invert().multiply(bone.matrixWorld),
+        physicsWorld: bone.matrixWorld.clone(),
+        frozenPosition: bone.position.clone(),
+        frozenQuaternion: bone.quaternion.clone(),
+        lastPosition: position.clone(),
+        velocity: new THREE.Vector3(),
+      };
+      this.parts.push(part);
+      partsByBone.set(bone, part);
+
+      if (parent) {
+        this.addJoint(parent, part, head, direction, boneOptions, options);
+      }
+    }
+  }
+
+  /**
+   * Whether the bodies are simulated rather than following the animation
+   */
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * How much of the physics pose is currently applied (0 to 1)
+   */
+  get physicsWeight(): number {
+    return this.weight;
+  }
+
+  /**
+   * Lets physics take over the skeleton, e.g. on death or a heavy hit
+   * @param blendTime Seconds to blend from the animated pose
+   */
+  activate(blendTime = 0): void {
+    if (this.active) return;
+
+    this.active = true;
+    this.parts.forEach((part) => {
+      this.physics.setBodyType(part.bodyId, PhysicsBodyType.DYNAMIC);
+      this.physics.setVelocity(part.bodyId, part.velocity.toArray());
+    });
+    this.blendTo(1, blendTime);
+  }
+
+  /**
+   * Hands the skeleton back to animation, e.g. when getting up
+   * @param blendTime Seconds to blend from the current ragdoll pose
+   */
+  deactivate(blendTime = 0): void {
+    if (!this.active) return;
+
+    // Blend back from the pose the ragdoll ended in
+    this.active = false;
+    this.parts.forEach((part) => {
+      part.frozenPosition.copy(part.bone.position);
+      part.frozenQuaternion.copy(part.bone.quaternion);
+      part.proxy.getWorldPosition(part.lastPosition);
+      this.physics.setBodyType(part.bodyId, PhysicsBodyType.KINEMATIC);
+    });
+    this.blendTo(0, blendTime);
+  }
+
+  /**
+   * Blends towards a partial physics weight, e.g. for hit reactions
+   * The ragdoll must be active for the physics pose to move
+   * @param weight Target weight between 0 and 1
+   * @param blendTime Seconds to reach the weight
+   */
+  blendTo(weight: number, blendTime = 0): void {
+    this.targetWeight = THREE.MathUtils.clamp(weight, 0, 1);
+    const distance = Math.abs(this.targetWeight - this.weight);
+    this.blendSpeed = blendTime > 0 ? distance / blendTime : Infinity;
+  }
+
+  /**
+   * Poses the bones for this frame; call after the animation mixer
+   * @param dt Delta time in seconds
+   */
+  update(dt: number): void {
+    // Ease the weight towards its target
+    const step = this.blendSpeed * dt;
+    if (Math.abs(this.targetWeight - this.weight) <= step) {
+      this.weight = this.targetWeight;
+    } else {
+      this.weight += Math.sign(this.targetWeight - this.weight) * step;
+    }
+
+    if (this.active) {
+      this.applyPhysicsPose();
+    } else {
+      if (this.weight > 0) this.applyFrozenPose();
+      this.followAnimation(dt);
+    }
+  }
+
+  /**
+   * Removes the ragdoll's bodies and joints from the physics world
+   */
+  dispose(): void {
+    this.constraintIds.forEach((id) => this.physics.removeConstraint(id));
+    this.parts.forEach((part) => this.physics.removeObject(part.bodyId));
+    this.constraintIds = [];
+    this.parts = [];
+  }
+
+  /**
+   * Blends each bone's local transform towards the synced body poses
+   */
+  private applyPhysicsPose(): void {
+    const bodyMatrix = new THREE.Matrix4();
+    const parentWorld = new THREE.Matrix4();
+    const local = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+
+    for (const part of this.parts) {
+      // Where the body says the bone is
+      bodyMatrix.compose(
+        part.proxy.position,
+        part.proxy.quaternion,
+        new THREE.Vector3(1, 1, 1)
+      );
+      part.physicsWorld.multiplyMatrices(bodyMatrix, part.boneOffset);
+
+      // Relative to the bone's parent: placed by the simulated ancestor, or
+      // animated at the root
+      if (part.parent) {
+        parentWorld.multiplyMatrices(
+          part.parent.physicsWorld,
+          part.parentOffset
+        );
+      } else if (part.bone.parent) {
+        part.bone.parent.updateWorldMatrix(true, false);
+        parentWorld.copy(part.bone.parent.matrixWorld);
+      } else {
+        parentWorld.identity();
+      }
+      local.copy(parentWorld).invert().multiply(part.physicsWorld);
+      local.decompose(position, quaternion, scale);
+
+      part.bone.quaternion.slerp(quaternion, this.weight);
+
+      // Children of simulated bones keep their bone lengths; the rest move
+      if (!part.keepsLength) part.bone.position.lerp(position, this.weight);
+    }
+  }
+
+  /**
+   * Blends the animated pose towards the pose the ragdoll was left in
+   */
+  private applyFrozenPose(): void {
+    for (const part of this.parts) {
+      part.bone.quaternion.slerp(part.frozenQuaternion, this.weight);
+      if (!part.keepsLength) {
+        part.bone.position.lerp(part.frozenPosition, this.weight);
+      }
+    }
+  }
+
+  /**
+   * Moves the kinematic bodies to the bones' current pose
+   * The bodies are only placed, not given velocity, which would carry them
+   * a step past the animation; the velocity is kept for activation instead
+   * @param dt Delta time in seconds, used to measure the animation's velocity
+   */
+  private followAnimation(dt: number): void {
+    const bodyMatrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+
+    for (const part of this.parts) {
+      part.bone.updateWorldMatrix(true, false);
+      bodyMatrix
+        .copy(part.bone.matrixWorld)
+        .multiply(part.boneOffset.clone().invert());
+      bodyMatrix.decompose(position, quaternion, scale);
+
+      // Activation carries the animation's motion into the ragdoll
+      if (dt > 0) {
+        part.velocity.copy(position).sub(part.lastPosition).divideScalar(dt);
+      } else {
+        part.velocity.set(0, 0, 0);
+      }
+      part.lastPosition.copy(position);
+
+      this.physics.setPosition(part.bodyId, [
+        position.x,
+        position.y,
+        position.z,
+      ]);
+      this.physics.setRotation(part.bodyId, [
+        quaternion.x,
+        quaternion.y,
+        quaternion.z,
+        quaternion.w,
+      ]);
+    }
+  }
+
+  /**
+   * Joins a part to its parent at the part's head
+   * @param parent The parent part
+   * @param part The child part
+   * @param head World position of the joint
+   * @param direction World direction of the child segment
+   * @param boneOptions Overrides for the child bone
+   * @param options Ragdoll defaults
+   */
+  private addJoint(
+    parent: RagdollPart,
+    part: RagdollPart,
+    head: THREE.Vector3,
+    direction: THREE.Vector3,
+    boneOptions: RagdollBoneOptions | undefined,
+    options: RagdollOptions
+  ): void {
+    const parentInverse = new THREE.Matrix4()
+      .compose(
+        parent.proxy.position,
+        parent.proxy.quaternion,
+        new THREE.Vector3(1, 1, 1)
+      )
+      .invert();
+    const childInverse = new THREE.Matrix4()
+      .compose(
+        part.proxy.position,
+        part.proxy.quaternion,
+        new THREE.Vector3(1, 1, 1)
+      )
+      .invert();
+
+    // The cone opens around the child's rest direction in the parent's frame
+    const axisA = direction
+      .clone()
+      .applyQuaternion(parent.proxy.quaternion.clone().invert());
+
+    this.constraintIds.push(
+      this.physics.addConstraint({
+        type: PhysicsConstraintType.CONE_TWIST,
+        bodyA: parent.bodyId,
+        bodyB: part.bodyId,
+        pivotA: head.clone().applyMatrix4(parentInverse).toArray(),
+        pivotB: head.clone().applyMatrix4(childInverse).toArray(),
+        axisA: axisA.toArray(),
+        axisB: [0, 1, 0],
+        angle: boneOptions?.coneAngle ?? options.coneAngle ?? Math.PI / 4,
+        twistAngle:
+          boneOptions?.twistAngle ?? options.twistAngle ?? Math.PI / 9,
+        collideConnected: false,
+      })
+    );
+  }
+
+  /**
+   * Finds the bones of a skeleton whose parent is not a bone
+   * @param skeleton The skeleton
+   */
+  private findRootBones(skeleton: THREE.Skeleton): THREE.Bone[] {
+    return skeleton.bones.filter(
+      (bone) => !(bone.parent instanceof THREE.Bone)
+    );
+  }
+
+  /**
+   * Picks the child bone a segment runs to: the one leading the largest
+   * subtree, so hips point up the spine rather than down a leg
+   * @param bone The segment's start bone
+   * @returns The end bone, or undefined for leaf bones
+   */
+  private findSegmentEnd(bone: THREE.Bone): THREE.Bone | undefined {
+    let best: THREE.Bone | undefined;
+    let bestSize = -1;
+    for (const child of bone.children) {
+      if (!(child instanceof THREE.Bone)) continue;
+
+      let size = 0;
+      child.traverse((descendant) => {
+        if (descendant instanceof THREE.Bone) size++;
+      });
+      if (size > bestSize) {
+        best = child;
+        bestSize = size;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Finds the nearest ancestor of a bone that has a part
+   * @param bone The bone
+   * @param partsByBone Parts created so far
+   */
+  private findParentPart(
+    bone: THREE.Bone,
+    partsByBone: Map<THREE.Bone, RagdollPart>
+  ): RagdollPart | null {
+    let ancestor = bone.parent;
+    while (ancestor) {
+      const part = partsByBone.get(ancestor as THREE.Bone);
+      if (part) return part;
+      ancestor = ancestor.parent;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { SharedTransforms, TransformArrays } from "./SharedTransforms";
+
+// Transforms for bodies placed at x equal to their ID, one step after x - 1
+const transformsFor = (ids: number[]): TransformArrays => ({
+  count: ids.length,
+  ids: new Uint32Array(ids),
+  positions: new Float32Array(ids.flatMap((id) => [id, 0, 0])),
+  quaternions: new Float32Array(ids.flatMap(() => [0, 0, 0, 1])),
+  previousPositions: new Float32Array(ids.flatMap((id) => [id - 1, 0, 0])),
+  previousQuaternions: new Float32Array(ids.flatMap(() => [0, 0, 0, 1])),
+});
+
+// Both ends of the channel, as the worker and main thread would hold them
+const createChannel = () => {
+  const writer = SharedTransforms.create(4, 2);
+  const reader = new SharedTransforms(writer.buffer, 4, 2);
+  return { writer, reader };
+};
+
+// Reads a frame, copying out the IDs and x positions
+const readFrame = (reader: SharedTransforms) => {
+  let frame:
+    | { ids: number[]; x: number[]; previousX: number[]; sequence: number }
+    | undefined;
+  reader.read((bodies, _wheels, sequence) => {
+    const ids = Array.from(bodies.ids.subarray(0, bodies.count));
+    frame = {
+      ids,
+      x: ids.map((_, i) => bodies.positions[i * 3]),
+      previousX: ids.map((_, i) => bodies.previousPositions[i * 3]),
+      sequence,
+    };
+  });
+  return frame;
+};
+
+describe("SharedTransforms", () => {
+  it("hands each written frame to the reader once", () => {
+    const { writer, reader } = createChannel();
+    expect(reader.read(() => {})).toBe(false);
+
+    writer.write(transformsFor([1, 2]), undefined, 5);
+    expect(readFrame(reader)).toEqual({
+      ids: [1, 2],
+      x: [1, 2],
+      previousX: [0, 1],
+      sequence: 5,
+    });
+    expect(reader.read(() => {})).toBe(false);
+  });
+
+  it("skips to the latest frame when several arrive between reads", () => {
+    const { writer, reader } = createChannel();
+    writer.write(transformsFor([1]), undefined, 1);
+    writer.write(transformsFor([1, 2, 3]), undefined, 2);
+    writer.write(transformsFor([4]), undefined, 3);
+
+    expect(readFrame(reader)).toMatchObject({ ids: [4], sequence: 3 });
+  });
+
+  it("never overwrites the frame being read", () => {
+    const { writer, reader } = createChannel();
+    writer.write(transformsFor([1]), undefined, 1);
+
+    reader.read((bodies) => {
+      // The worker publishes while the main thread is still copying; it
+      // writes the other slot (a second write would wait for this one)
+      writer.write(transformsFor([2]), undefined, 2);
+      expect(bodies.ids[0]).toBe(1);
+      expect(bodies.positions[0]).toBe(1);
+    });
+
+    expect(readFrame(reader)).toMatchObject({ ids: [2], sequence: 2 });
+  });
+
+  it("carries wheels alongside bodies", () => {
+    const { writer, reader } = createChannel();
+    writer.write(transformsFor([1]), transformsFor([7, 7]), 1);
+
+    reader.read((_bodies, wheels) => {
+      expect(wheels.count).toBe(2);
+      expect(Array.from(wheels.ids.subarray(0, 2))).toEqual([7, 7]);
+      expect(wheels.previousPositions[0]).toBe(6);
+    });
+    expect(writer.fits(4, 2)).toBe(true);
+    expect(writer.fits(5, 0)).toBe(false);
+  });
+});
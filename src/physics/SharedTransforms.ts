@@ -0,0 +1,256 @@
+/**
+ * Double-buffered body and wheel transforms shared between the physics
+ * worker and the main thread through a SharedArrayBuffer
+ *
+ * Layout (Int32 header, then two identical slots):
+ *   header: i32 ready slot, i32 slot being read (-1 for none), i32 frame,
+ *           i32 x3 body count, wheel count and sequence per slot
+ *   slot:   u32 body ids, f32 x3 positions, f32 x4 quaternions,
+ *           f32 x3 previous positions, f32 x4 previous quaternions,
+ *           then the same five arrays for wheels, keyed by vehicle id
+ *
+ * The worker always writes the slot that is not marked ready, then
+ * publishes it. The main thread claims the ready slot while copying it out,
+ * and the worker waits rather than overwrite a claimed slot.
+ */
+
+/** Header indices */
+const READY = 0;
+const READING = 1;
+const FRAME = 2;
+const COUNTS = 3;
+
+/** Header words per slot: body count, wheel count, sequence */
+const SLOT_WORDS = 3;
+
+const HEADER_LENGTH = COUNTS + 2 * SLOT_WORDS;
+
+/** Longest the worker blocks per wait on a slot being read, in ms */
+const WAIT_TIMEOUT = 1;
+
+/** 32-bit words per body or wheel: id, two positions and two quaternions */
+const TRANSFORM_WORDS = 15;
+
+/**
+ * Transforms of a set of bodies or wheels, indexed in parallel
+ */
+export interface TransformArrays {
+  count: number;
+  ids: Uint32Array;
+  positions: Float32Array;
+  quaternions: Float32Array;
+  /** Transforms one step before the latest, for interpolation */
+  previousPositions: Float32Array;
+  previousQuaternions: Float32Array;
+}
+
+/**
+ * Typed views over one slot of the shared buffer
+ */
+interface TransformSlot {
+  bodies: Omit<TransformArrays, "count">;
+  wheels: Omit<TransformArrays, "count">;
+}
+
+/**
+ * Copies the valid part of a set of transforms into a slot's arrays
+ * @param source The transforms
+ * @param target The slot's arrays, at least as long
+ */
+function copyTransforms(
+  source: TransformArrays,
+  target: Omit<TransformArrays, "count">
+): void {
+  const count = source.count;
+  target.ids.set(source.ids.subarray(0, count));
+  target.positions.set(source.positions.subarray(0, count * 3));
+  target.quaternions.set(source.quaternions.subarray(0, count * 4));
+  target.previousPositions.set(source.previousPositions.subarray(0, count * 3));
+  target.previousQuaternions.set(
+    source.previousQuaternions.subarray(0, count * 4)
+  );
+}
+
+/**
+ * Checks whether shared memory can be used on this page
+ * @returns True when SharedArrayBuffer and Atomics are available
+ */
+export function canShareTransforms(): boolean {
+  return (
+    typeof SharedArrayBuffer !== "undefined" &&
+    typeof Atomics !== "undefined" &&
+    globalThis.crossOriginIsolated === true
+  );
+}
+
+/**
+ * A double-buffered transform channel backed by a SharedArrayBuffer
+ */
+export class SharedTransforms {
+  /** Control words shared by both threads */
+  private header: Int32Array;
+
+  /** The two slots the worker alternates between */
+  private slots: [TransformSlot, TransformSlot];
+
+  /** Last frame read on the main thread */
+  private lastFrame = 0;
+
+  /**
+   * Allocates a buffer with room for the given number of bodies and wheels
+   * @param bodyCapacity Maximum bodies per frame
+   * @param wheelCapacity Maximum wheels per frame
+   */
+  static create(bodyCapacity: number, wheelCapacity: number): SharedTransforms {
+    const buffer = new SharedArrayBuffer(
+      SharedTransforms.byteLength(bodyCapacity, wheelCapacity)
+    );
+    const transforms = new SharedTransforms(
+      buffer,
+      bodyCapacity,
+      wheelCapacity
+    );
+    Atomics.store(transforms.header, READY, 0);
+    Atomics.store(transforms.header, READING, -1);
+    return transforms;
+  }
+
+  /**
+   * Bytes needed for a buffer of the given capacity
+   * @param bodyCapacity Maximum bodies per frame
+   * @param wheelCapacity Maximum wheels per frame
+   */
+  static byteLength(bodyCapacity: number, wheelCapacity: number): number {
+    // Every element is 4 bytes, so views never need padding
+    return (
+      (HEADER_LENGTH + 2 * TRANSFORM_WORDS * (bodyCapacity + wheelCapacity)) * 4
+    );
+  }
+
+  /**
+   * Wraps an existing shared buffer
+   * @param buffer The buffer created by the other thread
+   * @param bodyCapacity Maximum bodies per frame
+   * @param wheelCapacity Maximum wheels per frame
+   */
+  constructor(
+    readonly buffer: SharedArrayBuffer,
+    readonly bodyCapacity: number,
+    readonly wheelCapacity: number
+  ) {
+    this.header = new Int32Array(buffer, 0, HEADER_LENGTH);
+
+    let offset = HEADER_LENGTH * 4;
+    const take = <T>(
+      View: new (
+        buffer: SharedArrayBuffer,
+        offset: number,
+        length: number
+      ) => T,
+      length: number
+    ): T => {
+      const view = new View(buffer, offset, length);
+      offset += length * 4;
+      return view;
+    };
+    const arrays = (capacity: number): Omit<TransformArrays, "count"> => ({
+      ids: take(Uint32Array, capacity),
+      positions: take(Float32Array, capacity * 3),
+      quaternions: take(Float32Array, capacity * 4),
+      previousPositions: take(Float32Array, capacity * 3),
+      previousQuaternions: take(Float32Array, capacity * 4),
+    });
+    const slot = (): TransformSlot => ({
+      bodies: arrays(bodyCapacity),
+      wheels: arrays(wheelCapacity),
+    });
+    this.slots = [slot(), slot()];
+  }
+
+  /**
+   * Checks whether a frame of this size fits
+   * @param bodyCount Bodies in the frame
+   * @param wheelCount Wheels in the frame
+   */
+  fits(bodyCount: number, wheelCount: number): boolean {
+    return bodyCount <= this.bodyCapacity && wheelCount <= this.wheelCapacity;
+  }
+
+  /**
+   * Writes a frame and hands it to the main thread (worker side)
+   * @param bodies Body transforms
+   * @param wheels Wheel transforms, if any vehicles exist
+   * @param sequence Latest sequence number the worker received
+   */
+  write(
+    bodies: TransformArrays,
+    wheels: TransformArrays | undefined,
+    sequence: number
+  ): void {
+    const header = this.header;
+    const index = 1 - Atomics.load(header, READY);
+
+    // Never overwrite the slot the main thread is copying from
+    while (Atomics.load(header, READING) === index) {
+      Atomics.wait(header, READING, index, WAIT_TIMEOUT);
+    }
+
+    const slot = this.slots[index];
+    copyTransforms(bodies, slot.bodies);
+    const wheelCount = wheels?.count ?? 0;
+    if (wheels) copyTransforms(wheels, slot.wheels);
+
+    const counts = COUNTS + index * SLOT_WORDS;
+    Atomics.store(header, counts, bodies.count);
+    Atomics.store(header, counts + 1, wheelCount);
+    Atomics.store(header, counts + 2, sequence);
+
+    // Publish the slot, then bump the frame so the reader notices
+    Atomics.store(header, READY, index);
+    Atomics.add(header, FRAME, 1);
+  }
+
+  /**
+   * Reads the latest frame if one arrived since the last read (main side)
+   * The arrays passed to the callback are only valid during the call
+   * @param callback Receives body and wheel transforms, and the sequence
+   * number the frame was written at
+   * @returns True when a new frame was read
+   */
+  read(
+    callback: (
+      bodies: TransformArrays,
+      wheels: TransformArrays,
+      sequence: number
+    ) => void
+  ): boolean {
+    const header = this.header;
+    const frame = Atomics.load(header, FRAME);
+    if (frame === this.lastFrame) return false;
+
+    // Claim the ready slot; if the worker published again in the meantime
+    // it may already be writing the one we picked, so pick again
+    let index = Atomics.load(header, READY);
+    Atomics.store(header, READING, index);
+    while (Atomics.load(header, READY) !== index) {
+      index = Atomics.load(header, READY);
+      Atomics.store(header, READING, index);
+    }
+
+    try {
+      const slot = this.slots[index];
+      const counts = COUNTS + index * SLOT_WORDS;
+      callback(
+        { count: Atomics.load(header, counts), ...slot.bodies },
+        { count: Atomics.load(header, counts + 1), ...slot.wheels },
+        Atomics.load(header, counts + 2)
+      );
+    } finally {
+      Atomics.store(header, READING, -1);
+      Atomics.notify(header, READING);
+    }
+
+    this.lastFrame = frame;
+    return true;
+  }
+}
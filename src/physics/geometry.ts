@@ -0,0 +1,139 @@
+import * as THREE from "three";
+import { ConvexHull } from "three/examples/jsm/math/ConvexHull.js";
+import { PhysicsShapeOptions, PhysicsShapeType } from "./types";
+
+/**
+ * Reads the positions of a geometry, optionally baking in a transform
+ * @param geometry The source geometry
+ * @param matrix Optional transform applied to every vertex
+ * @returns A new array of xyz triplets
+ */
+export function readPositions(
+  geometry: THREE.BufferGeometry,
+  matrix?: THREE.Matrix4
+): Float32Array {
+  const attribute = geometry.getAttribute("position");
+  const positions = new Float32Array(attribute.count * 3);
+  const vertex = new THREE.Vector3();
+
+  for (let i = 0; i < attribute.count; i++) {
+    vertex.fromBufferAttribute(attribute, i);
+    if (matrix) vertex.applyMatrix4(matrix);
+    vertex.toArray(positions, i * 3);
+  }
+
+  return positions;
+}
+
+/**
+ * Builds a trimesh shape from a geometry's triangles
+ * Cannon only collides trimeshes with spheres, planes and boxes reliably,
+ * so prefer them for static level geometry
+ * @param geometry The source geometry
+ * @param matrix Optional transform baked into the vertices (e.g. mesh scale)
+ * @returns Shape options owning fresh, transferable buffers
+ */
+export function trimeshFromGeometry(
+  geometry: THREE.BufferGeometry,
+  matrix?: THREE.Matrix4
+): PhysicsShapeOptions {
+  const vertices = readPositions(geometry, matrix);
+  const index = geometry.getIndex();
+
+  let indices: Uint32Array;
+  if (index) {
+    indices = Uint32Array.from(index.array);
+  } else {
+    // Non-indexed geometry: every three vertices form a triangle
+    indices = new Uint32Array(vertices.length / 3);
+    for (let i = 0; i < indices.length; i++) indices[i] = i;
+  }
+
+  return { type: PhysicsShapeType.TRIMESH, vertices, indices };
+}
+
+/**
+ * Builds a convex hull shape enclosing a geometry's vertices
+ * @param geometry The source geometry
+ * @param matrix Optional transform baked into the vertices (e.g. mesh scale)
+ * @returns Shape options owning fresh, transferable buffers
+ */
+export function convexHullFromGeometry(
+  geometry: THREE.BufferGeometry,
+  matrix?: THREE.Matrix4
+): PhysicsShapeOptions {
+  const positions = readPositions(geometry, matrix);
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i < positions.length; i += 3) {
+    points.push(new THREE.Vector3().fromArray(positions, i));
+  }
+
+  const hull = new ConvexHull().setFromPoints(points);
+
+  // Hull faces share vertex nodes, so index each distinct point once
+  const vertexIndices = new Map<THREE.Vector3, number>();
+  const vertices: number[] = [];
+  const indices: number[] = [];
+
+  for (const face of hull.faces) {
+    let edge = face.edge;
+    do {
+      const point = edge.head().point;
+      let index = vertexIndices.get(point);
+      if (index === undefined) {
+        index = vertices.length / 3;
+        vertexIndices.set(point, index);
+        vertices.push(point.x, point.y, point.z);
+      }
+      indices.push(index);
+      edge = edge.next;
+    } while (edge !== face.edge);
+  }
+
+  return {
+    type: PhysicsShapeType.CONVEX,
+    vertices: new Float32Array(vertices),
+    indices: new Uint32Array(indices),
+  };
+}
+
+/**
+ * Checks whether a typed array is the only view of its own, unshared buffer,
+ * so transferring the buffer can't take data from anything else
+ * @param array The typed array
+ */
+function ownsBuffer(array: ArrayBufferView): boolean {
+  return (
+    array.buffer instanceof ArrayBuffer &&
+    array.byteOffset === 0 &&
+    array.byteLength === array.buffer.byteLength
+  );
+}
+
+/**
+ * Collects the typed-array buffers of a shape description so they can be
+ * transferred to the worker instead of copied
+ * Arrays that view part of a larger buffer, such as a subarray of a geometry
+ * attribute, or a SharedArrayBuffer, are left out and copied instead
+ * @param options The shape description
+ * @param buffers Array to add the buffers to
+ * @returns The buffers array
+ */
+export function collectShapeBuffers(
+  options: PhysicsShapeOptions,
+  buffers: ArrayBuffer[] = []
+): ArrayBuffer[] {
+  for (const array of [options.vertices, options.indices, options.heights]) {
+    if (
+      array &&
+      ownsBuffer(array) &&
+      !buffers.includes(array.buffer as ArrayBuffer)
+    ) {
+      buffers.push(array.buffer as ArrayBuffer);
+    }
+  }
+
+  options.shapes?.forEach((child) => collectShapeBuffers(child, buffers));
+
+  return buffers;
+}
@@ -0,0 +1,315 @@
+import * as THREE from "three";
+import {
+  convexHullFromGeometry,
+  readPositions,
+  trimeshFromGeometry,
+} from "./geometry";
+import {
+  PhysicsCompoundChildOptions,
+  PhysicsMaterialOptions,
+  PhysicsObjectOptions,
+  PhysicsShapeOptions,
+  PhysicsShapeType,
+} from "./types";
+
+/**
+ * Collider kinds that can be requested from a model
+ */
+export type ModelColliderType = "box" | "sphere" | "convex" | "trimesh";
+
+/**
+ * Mesh name prefixes marking collision-only proxies, as used by common
+ * exporters. Proxies are hidden once their collider is built
+ */
+const PROXY_PREFIXES: Record<string, ModelColliderType> = {
+  UBX_: "box",
+  USP_: "sphere",
+  UCX_: "convex",
+  UTM_: "trimesh",
+};
+
+/** Mesh name suffix marking a collision-only triangle mesh proxy */
+const TRIMESH_PROXY_SUFFIX = "-col";
+
+/**
+ * Overrides for the body built from a model
+ * Anything left out is read from the root's glTF extras (userData)
+ */
+export interface ModelColliderOptions
+  extends Partial<Omit<PhysicsObjectOptions, keyof PhysicsShapeOptions>> {
+  /** Collider for the whole model when no mesh declares its own */
+  collider?: ModelColliderType;
+}
+
+/**
+ * Builds body options from a loaded model
+ *
+ * Colliders are taken, in order of preference, from:
+ * - meshes named with a proxy prefix (UBX_, USP_, UCX_, UTM_) or the -col
+ *   suffix, which are hidden afterwards
+ * - meshes whose extras set `collider`
+ * - the root's extras `collider` (or options.collider), fitted around every
+ *   mesh in the model
+ *
+ * Mass and material come from the root's extras `mass` and `material`
+ * unless overridden. Shapes are expressed relative to the root, with the
+ * root's scale baked in, and the body starts at the root's world pose.
+ * @param model The model root, e.g. from AssetManager.loadModel
+ * @param options Overrides for the body
+ * @returns Body options for Entity.createBody, or null if the model
+ * declares no collider
+ */
+export function colliderFromModel(
+  model: THREE.Object3D,
+  options: ModelColliderOptions = {}
+): PhysicsObjectOptions | null {
+  model.updateWorldMatrix(true, true);
+
+  // The body frame is the root's world position and rotation, without scale
+  const rootPosition = new THREE.Vector3();
+  const rootQuaternion = new THREE.Quaternion();
+  model.matrixWorld.decompose(
+    rootPosition,
+    rootQuaternion,
+    new THREE.Vector3()
+  );
+  const toRoot = new THREE.Matrix4()
+    .compose(rootPosition, rootQuaternion, new THREE.Vector3(1, 1, 1))
+    .invert();
+
+  // Mesh transforms relative to the body frame
+  const relativeMatrix = (mesh: THREE.Mesh) =>
+    new THREE.Matrix4().multiplyMatrices(toRoot, mesh.matrixWorld);
+
+  const meshes: THREE.Mesh[] = [];
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh && child.geometry) meshes.push(child);
+  });
+
+  const shapes: PhysicsCompoundChildOptions[] = [];
+
+  // Dedicated proxies and meshes tagged in their extras
+  for (const mesh of meshes) {
+    const proxyType = proxyColliderType(mesh.name);
+    const type = proxyType ?? readColliderType(mesh.userData.collider);
+    if (!type) continue;
+
+    shapes.push(meshCollider(mesh, type, relativeMatrix(mesh)));
+    if (proxyType) mesh.visible = false;
+  }
+
+  // Otherwise fit one collider around the whole model
+  const modelType =
+    options.collider ?? readColliderType(model.userData.collider);
+  if (shapes.length === 0 && modelType) {
+    const visible = meshes.filter((mesh) => mesh.visible);
+    shapes.push(...modelCollider(visible, modelType, relativeMatrix));
+  }
+
+  if (shapes.length === 0) return null;
+
+  const { collider, ...bodyOptions } = options;
+  const hasTrimesh = shapes.some(
+    (shape) => shape.type === PhysicsShapeType.TRIMESH
+  );
+  const mass =
+    options.mass ??
+    readNumber(model.userData.mass) ??
+    // Cannon can't simulate moving trimeshes, so default those to static
+    (hasTrimesh ? 0 : 1);
+
+  return {
+    ...bodyOptions,
+    type: PhysicsShapeType.COMPOUND,
+    shapes,
+    mass,
+    material: options.material ?? readMaterial(model.userData),
+    position: options.position ?? [
+      rootPosition.x,
+      rootPosition.y,
+      rootPosition.z,
+    ],
+    quaternion: options.quaternion ?? [
+      rootQuaternion.x,
+      rootQuaternion.y,
+      rootQuaternion.z,
+      rootQuaternion.w,
+    ],
+  };
+}
+
+/**
+ * Gets the collider type implied by a proxy mesh name
+ * @param name The mesh name
+ */
+function proxyColliderType(name: string): ModelColliderType | undefined {
+  for (const prefix in PROXY_PREFIXES) {
+    if (name.startsWith(prefix)) return PROXY_PREFIXES[prefix];
+  }
+  if (name.endsWith(TRIMESH_PROXY_SUFFIX)) return "trimesh";
+  return undefined;
+}
+
+/**
+ * Validates a collider type read from glTF extras
+ * @param value The raw extras value
+ */
+function readColliderType(value: unknown): ModelColliderType | undefined {
+  return value === "box" ||
+    value === "sphere" ||
+    value === "convex" ||
+    value === "trimesh"
+    ? value
+    : undefined;
+}
+
+/**
+ * Reads a number from glTF extras
+ * @param value The raw extras value
+ */
+function readNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+/**
+ * Reads a material from glTF extras: either a registered material name or
+ * separate friction and restitution values
+ * @param extras The root's userData
+ */
+function readMaterial(
+  extras: Record<string, any>
+): string | PhysicsMaterialOptions | undefined {
+  if (typeof extras.material === "string") return extras.material;
+
+  const friction = readNumber(extras.friction);
+  const restitution = readNumber(extras.restitution);
+  if (friction === undefined && restitution === undefined) return undefined;
+  return { friction: friction ?? 0.3, restitution: restitution ?? 0.3 };
+}
+
+/**
+ * Builds a collider for a single mesh
+ * @param mesh The mesh
+ * @param type The collider type
+ * @param matrix The mesh transform relative to the body
+ */
+function meshCollider(
+  mesh: THREE.Mesh,
+  type: ModelColliderType,
+  matrix: THREE.Matrix4
+): PhysicsCompoundChildOptions {
+  const geometry = mesh.geometry as THREE.BufferGeometry;
+
+  switch (type) {
+    case "convex":
+      return convexHullFromGeometry(geometry, matrix);
+    case "trimesh":
+      return trimeshFromGeometry(geometry, matrix);
+    case "box":
+    case "sphere": {
+      // Primitives follow the mesh's rotation, with its scale applied to size
+      const position = new THREE.Vector3();
+      const quaternion = new THREE.Quaternion();
+      const scale = new THREE.Vector3();
+      matrix.decompose(position, quaternion, scale);
+
+      if (!geometry.boundingBox) geometry.computeBoundingBox();
+      const bounds = geometry.boundingBox!;
+      const center = bounds.getCenter(new THREE.Vector3()).multiply(scale);
+      const size = bounds.getSize(new THREE.Vector3()).multiply(scale);
+      const offset = center.applyQuaternion(quaternion).add(position);
+
+      return {
+        ...primitiveShape(type, size),
+        offset: [offset.x, offset.y, offset.z],
+        quaternion: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+      };
+    }
+  }
+}
+
+/**
+ * Builds colliders fitted around a set of meshes
+ * @param meshes The meshes to enclose
+ * @param type The collider type
+ * @param relativeMatrix Gets a mesh transform relative to the body
+ */
+function modelCollider(
+  meshes: THREE.Mesh[],
+  type: ModelColliderType,
+  relativeMatrix: (mesh: THREE.Mesh) => THREE.Matrix4
+): PhysicsCompoundChildOptions[] {
+  if (meshes.length === 0) return [];
+
+  switch (type) {
+    case "trimesh":
+      // One trimesh per mesh keeps each within cannon's 16-bit index limit
+      return meshes.map((mesh) =>
+        trimeshFromGeometry(
+          mesh.geometry as THREE.BufferGeometry,
+          relativeMatrix(mesh)
+        )
+      );
+    case "convex": {
+      // One hull around every vertex of the model
+      const merged = new THREE.BufferGeometry();
+      const positions = meshes.map((mesh) =>
+        readPositions(
+          mesh.geometry as THREE.BufferGeometry,
+          relativeMatrix(mesh)
+        )
+      );
+      const all = new Float32Array(
+        positions.reduce((total, array) => total + array.length, 0)
+      );
+      let offset = 0;
+      for (const array of positions) {
+        all.set(array, offset);
+        offset += array.length;
+      }
+      merged.setAttribute("position", new THREE.BufferAttribute(all, 3));
+      return [convexHullFromGeometry(merged)];
+    }
+    case "box":
+    case "sphere": {
+      // Axis-aligned in the body frame
+      const bounds = new THREE.Box3();
+      for (const mesh of meshes) {
+        const geometry = mesh.geometry as THREE.BufferGeometry;
+        if (!geometry.boundingBox) geometry.computeBoundingBox();
+        bounds.union(
+          geometry.boundingBox!.clone().applyMatrix4(relativeMatrix(mesh))
+        );
+      }
+
+      const center = bounds.getCenter(new THREE.Vector3());
+      const size = bounds.getSize(new THREE.Vector3());
+      return [
+        {
+          ...primitiveShape(type, size),
+          offset: [center.x, center.y, center.z],
+        },
+      ];
+    }
+  }
+}
+
+/**
+ * Builds a box or sphere fitting bounds of the given size
+ * @param type Box or sphere
+ * @param size Size of the bounds
+ */
+function primitiveShape(
+  type: "box" | "sphere",
+  size: THREE.Vector3
+): PhysicsCompoundChildOptions {
+  if (type === "sphere") {
+    return {
+      type: PhysicsShapeType.SPHERE,
+      radius: Math.max(size.x, size.y, size.z) / 2,
+    };
+  }
+  return { type: PhysicsShapeType.BOX, size: [size.x, size.y, size.z] };
+}
@@ -0,0 +1,223 @@
+/**
+ * Binary serialization for physics world snapshots
+ *
+ * Layout (little endian):
+ *   header:     u32 magic, u16 version, u16 reserved, f64 time,
+ *               u32 step, u32 body count, u32 constraint count
+ *   body:       u32 id, f64 x3 position, f64 x4 quaternion, f64 x3 velocity,
+ *               f64 x3 angular velocity, u8 sleep state, f64 time last sleepy
+ *   constraint: u32 id, u8 flags, f64 motor speed
+ *
+ * Values are stored as f64 so a restored world continues bit-for-bit.
+ */
+
+/** Identifies a snapshot buffer ("PHYS") */
+const MAGIC = 0x50485953;
+
+/** Bumped whenever the layout changes */
+const VERSION = 1;
+
+const HEADER_SIZE = 4 + 2 + 2 + 8 + 4 + 4 + 4;
+const BODY_SIZE = 4 + 8 * 13 + 1 + 8;
+const CONSTRAINT_SIZE = 4 + 1 + 8;
+
+/** Constraint flag bits */
+const CONSTRAINT_ENABLED = 1 << 0;
+const CONSTRAINT_MOTOR_ENABLED = 1 << 1;
+
+/**
+ * Dynamic state of a single body
+ */
+export interface PhysicsBodyState {
+  id: number;
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  velocity: [number, number, number];
+  angularVelocity: [number, number, number];
+  sleepState: number;
+  timeLastSleepy: number;
+}
+
+/**
+ * Dynamic state of a single constraint
+ */
+export interface PhysicsConstraintState {
+  id: number;
+  enabled: boolean;
+  motorEnabled: boolean;
+  motorSpeed: number;
+}
+
+/**
+ * Dynamic state of a whole world
+ */
+export interface PhysicsWorldState {
+  time: number;
+  step: number;
+  bodies: PhysicsBodyState[];
+  constraints: PhysicsConstraintState[];
+}
+
+/**
+ * Encodes world state into a compact binary buffer
+ * @param state The state to encode
+ * @returns A new buffer holding the encoded state
+ */
+export function encodeWorldState(state: PhysicsWorldState): ArrayBuffer {
+  const buffer = new ArrayBuffer(
+    HEADER_SIZE +
+      state.bodies.length * BODY_SIZE +
+      state.constraints.length * CONSTRAINT_SIZE
+  );
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  const u8 = (value: number) => {
+    view.setUint8(offset, value);
+    offset += 1;
+  };
+  const u16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const f64 = (...values: number[]) => {
+    for (const value of values) {
+      view.setFloat64(offset, value, true);
+      offset += 8;
+    }
+  };
+
+  u32(MAGIC);
+  u16(VERSION);
+  u16(0);
+  f64(state.time);
+  u32(state.step);
+  u32(state.bodies.length);
+  u32(state.constraints.length);
+
+  for (const body of state.bodies) {
+    u32(body.id);
+    f64(...body.position);
+    f64(...body.quaternion);
+    f64(...body.velocity);
+    f64(...body.angularVelocity);
+    u8(body.sleepState);
+    f64(body.timeLastSleepy);
+  }
+
+  for (const constraint of state.constraints) {
+    u32(constraint.id);
+    u8(
+      (constraint.enabled ? CONSTRAINT_ENABLED : 0) |
+        (constraint.motorEnabled ? CONSTRAINT_MOTOR_ENABLED : 0)
+    );
+    f64(constraint.motorSpeed);
+  }
+
+  return buffer;
+}
+
+/**
+ * Decodes world state from a buffer produced by encodeWorldState
+ * @param buffer The encoded state
+ * @returns The decoded state
+ */
+export function decodeWorldState(buffer: ArrayBuffer): PhysicsWorldState {
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  const u8 = () => {
+    const value = view.getUint8(offset);
+    offset += 1;
+    return value;
+  };
+  const u16 = () => {
+    const value = view.getUint16(offset, true);
+    offset += 2;
+    return value;
+  };
+  const u32 = () => {
+    const value = view.getUint32(offset, true);
+    offset += 4;
+    return value;
+  };
+  const f64 = () => {
+    const value = view.getFloat64(offset, true);
+    offset += 8;
+    return value;
+  };
+
+  if (buffer.byteLength < HEADER_SIZE || u32() !== MAGIC) {
+    throw new Error("Invalid physics snapshot");
+  }
+  const version = u16();
+  if (version !== VERSION) {
+    throw new Error(`Unsupported physics snapshot version: ${version}`);
+  }
+  u16();
+
+  const time = f64();
+  const step = u32();
+  const bodyCount = u32();
+  const constraintCount = u32();
+
+  const bodies: PhysicsBodyState[] = [];
+  for (let i = 0; i < bodyCount; i++) {
+    bodies.push({
+      id: u32(),
+      position: [f64(), f64(), f64()],
+      quaternion: [f64(), f64(), f64(), f64()],
+      velocity: [f64(), f64(), f64()],
+      angularVelocity: [f64(), f64(), f64()],
+      sleepState: u8(),
+      timeLastSleepy: f64(),
+    });
+  }
+
+  const constraints: PhysicsConstraintState[] = [];
+  for (let i = 0; i < constraintCount; i++) {
+    const id = u32();
+    const flags = u8();
+    constraints.push({
+      id,
+      enabled: (flags & CONSTRAINT_ENABLED) !== 0,
+      motorEnabled: (flags & CONSTRAINT_MOTOR_ENABLED) !== 0,
+      motorSpeed: f64(),
+    });
+  }
+
+  return { time, step, bodies, constraints };
+}
+
+/**
+ * Checks that state was captured from a world with exactly the given bodies
+ * and constraints, since restoring neither creates nor removes any
+ * @param state The decoded state
+ * @param bodyIds IDs of the bodies in the world now
+ * @param constraintIds IDs of the constraints and springs in the world now
+ */
+export function assertSameTopology(
+  state: PhysicsWorldState,
+  bodyIds: Iterable<number>,
+  constraintIds: Iterable<number>
+): void {
+  const sameIds = (saved: { id: number }[], current: Iterable<number>) => {
+    const ids = new Set(current);
+    return saved.length === ids.size && saved.every(({ id }) => ids.has(id));
+  };
+
+  if (!sameIds(state.bodies, bodyIds)) {
+    throw new Error(
+      "Physics snapshot has different bodies from the world; add or remove bodies to match before restoring"
+    );
+  }
+  if (!sameIds(state.constraints, constraintIds)) {
+    throw new Error(
+      "Physics snapshot has different constraints from the world; add or remove constraints to match before restoring"
+    );
+  }
+}
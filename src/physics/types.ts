@@ -3,22 +3,170 @@ export enum PhysicsShapeType {
   BOX = "box",
   SPHERE = "sphere",
   PLANE = "plane",
+  CYLINDER = "cylinder",
+  CAPSULE = "capsule",
+  CONVEX = "convex",
+  TRIMESH = "trimesh",
+  HEIGHTFIELD = "heightfield",
+  COMPOUND = "compound",
 }
 
-export interface PhysicsObjectOptions {
+// How a body participates in the simulation
+export enum PhysicsBodyType {
+  DYNAMIC = "dynamic", // Moved by forces and collisions
+  STATIC = "static", // Never moves
+  KINEMATIC = "kinematic", // Moved only by its velocity, pushes dynamic bodies
+}
+
+// Shape description shared by bodies and compound children
+// Typed arrays that own their whole buffer are transferred to the worker and
+// detached on this thread; views into a larger or shared buffer are copied
+export interface PhysicsShapeOptions {
   type: PhysicsShapeType;
+  size?: [number, number, number]; // For box
+  radius?: number; // For sphere, cylinder and capsule
+  radiusTop?: number; // For cylinder (defaults to radius)
+  radiusBottom?: number; // For cylinder (defaults to radius)
+  height?: number; // For cylinder and capsule (total height, along Y)
+  segments?: number; // For cylinder
+  vertices?: Float32Array; // For convex and trimesh (xyz triplets)
+  indices?: Uint32Array; // For convex and trimesh (outward-facing triangles)
+  heights?: Float32Array; // For heightfield (row-major, rows along X, columns along -Z)
+  rows?: number; // For heightfield
+  columns?: number; // For heightfield
+  elementSize?: number; // For heightfield (distance between samples)
+  shapes?: PhysicsCompoundChildOptions[]; // For compound
+}
+
+// A child shape of a compound body, placed relative to the body
+export interface PhysicsCompoundChildOptions extends PhysicsShapeOptions {
+  offset?: [number, number, number];
+  quaternion?: [number, number, number, number];
+}
+
+export interface PhysicsObjectOptions extends PhysicsShapeOptions {
   mass: number;
+  bodyType?: PhysicsBodyType; // Defaults to dynamic with mass, static without
   position: [number, number, number];
   quaternion?: [number, number, number, number];
-  size?: [number, number, number]; // For box
-  radius?: number; // For sphere
-  material?: {
-    friction: number;
-    restitution: number;
-  };
+  material?: string | PhysicsMaterialOptions; // Registered material name or inline values
   linearDamping?: number;
   angularDamping?: number;
   fixedRotation?: boolean;
+  collisionFilterGroup?: number; // Bit group this body belongs to (defaults to 1)
+  collisionFilterMask?: number; // Bit groups this body collides with (defaults to all)
+  isTrigger?: boolean; // Sensor that reports overlaps without collision response
+}
+
+// Surface properties of a physics material
+export interface PhysicsMaterialOptions {
+  friction: number;
+  restitution: number;
+}
+
+// Interaction between a specific pair of materials
+export interface PhysicsContactMaterialOptions {
+  friction?: number;
+  restitution?: number;
+  contactEquationStiffness?: number;
+  contactEquationRelaxation?: number;
+  frictionEquationStiffness?: number;
+  frictionEquationRelaxation?: number;
+}
+
+// Capsule character simulated inside the worker
+export interface PhysicsCharacterOptions {
+  position: [number, number, number]; // Centre of the capsule
+  radius?: number; // Defaults to 0.4
+  height?: number; // Total capsule height, defaults to 1.8
+  mass?: number; // Defaults to 70
+  speed?: number; // Top walking speed in m/s, defaults to 5
+  acceleration?: number; // How quickly speed changes, 1/s, defaults to 12
+  airControl?: number; // Fraction of acceleration while airborne, defaults to 0.3
+  jumpSpeed?: number; // Upward speed of a jump in m/s, defaults to 6
+  maxSlope?: number; // Steepest walkable slope in radians, defaults to 45 degrees
+  stepHeight?: number; // Tallest ledge stepped onto automatically, defaults to 0.3
+  coyoteTime?: number; // Seconds a jump is allowed after leaving the ground, defaults to 0.1
+  jumpBufferTime?: number; // Seconds an early jump press is remembered, defaults to 0.1
+  collisionFilterGroup?: number;
+  collisionFilterMask?: number;
+}
+
+// Per-step state of a character
+export interface PhysicsCharacterState {
+  id: number;
+  grounded: boolean;
+  groundNormal: [number, number, number];
+  groundBodyId?: number; // Body the character is standing on
+  velocity: [number, number, number];
+}
+
+// A raycast wheel, placed relative to the chassis
+// The chassis is assumed to face +Z with +X to its right and +Y up
+export interface PhysicsWheelOptions {
+  position: [number, number, number]; // Chassis-local suspension mount point
+  radius?: number; // Defaults to 0.4
+  direction?: [number, number, number]; // Suspension direction, defaults to down
+  axle?: [number, number, number]; // Rotation axis, defaults to -X
+  isFrontWheel?: boolean; // Front wheels steer, the others are driven
+  suspensionRestLength?: number;
+  suspensionMaxLength?: number;
+  suspensionStiffness?: number;
+  maxSuspensionForce?: number;
+  maxSuspensionTravel?: number;
+  dampingCompression?: number;
+  dampingRelaxation?: number;
+  frictionSlip?: number; // Tyre grip
+  rollInfluence?: number;
+}
+
+export interface PhysicsVehicleOptions {
+  chassis: PhysicsObjectOptions;
+  wheels: PhysicsWheelOptions[];
+}
+
+// Driver input; a single number applies to front wheels for steering,
+// to the other wheels for engine force and to every wheel for brakes,
+// an array gives one value per wheel
+export interface PhysicsVehicleInput {
+  steering?: number | number[]; // Steering angle in radians
+  engineForce?: number | number[];
+  brake?: number | number[];
+}
+
+// Constraint types
+export enum PhysicsConstraintType {
+  POINT_TO_POINT = "point_to_point",
+  HINGE = "hinge",
+  LOCK = "lock",
+  DISTANCE = "distance",
+  SPRING = "spring",
+  CONE_TWIST = "cone_twist",
+}
+
+export interface PhysicsHingeMotorOptions {
+  enabled: boolean;
+  speed?: number; // Target angular speed in rad/s
+  maxForce?: number;
+}
+
+export interface PhysicsConstraintOptions {
+  type: PhysicsConstraintType;
+  bodyA: number;
+  bodyB: number;
+  pivotA?: [number, number, number]; // Local anchor on bodyA (point-to-point, hinge, spring)
+  pivotB?: [number, number, number]; // Local anchor on bodyB (point-to-point, hinge, spring)
+  axisA?: [number, number, number]; // Local hinge or twist axis on bodyA
+  axisB?: [number, number, number]; // Local hinge or twist axis on bodyB
+  distance?: number; // For distance (defaults to the current distance)
+  maxForce?: number;
+  collideConnected?: boolean;
+  motor?: PhysicsHingeMotorOptions; // For hinge
+  restLength?: number; // For spring
+  stiffness?: number; // For spring
+  damping?: number; // For spring
+  angle?: number; // For cone twist, cone half-angle in radians
+  twistAngle?: number; // For cone twist, twist limit in radians
 }
 
 // Worker message types
@@ -33,6 +181,184 @@ export enum PhysicsWorkerMessageType {
   SET_POSITION = "set_position",
   SET_VELOCITY = "set_velocity",
   GET_BODY_PROPS = "get_body_props",
+  COLLISIONS = "collisions",
+  RAYCAST = "raycast",
+  SPHERE_CAST = "sphere_cast",
+  ADD_CONSTRAINT = "add_constraint",
+  REMOVE_CONSTRAINT = "remove_constraint",
+  SET_HINGE_MOTOR = "set_hinge_motor",
+  TRIGGERS = "triggers",
+  SET_ROTATION = "set_rotation",
+  SET_ANGULAR_VELOCITY = "set_angular_velocity",
+  SET_MASS = "set_mass",
+  SET_BODY_TYPE = "set_body_type",
+  EXPLODE = "explode",
+  ADD_FORCE_FIELD = "add_force_field",
+  REMOVE_FORCE_FIELD = "remove_force_field",
+  ADD_WATER = "add_water",
+  REMOVE_WATER = "remove_water",
+  WATER_EVENTS = "water_events",
+  APPLY_TORQUE = "apply_torque",
+  WAKE_UP = "wake_up",
+  SLEEP = "sleep",
+  ADD_MATERIAL = "add_material",
+  ADD_CONTACT_MATERIAL = "add_contact_material",
+  SNAPSHOT = "snapshot",
+  RESTORE = "restore",
+  SET_REWIND_BUFFER = "set_rewind_buffer",
+  REWIND = "rewind",
+  SET_DEBUG = "set_debug",
+  DEBUG_SHAPES = "debug_shapes",
+  DEBUG_FRAME = "debug_frame",
+  ADD_CHARACTER = "add_character",
+  SET_CHARACTER_INPUT = "set_character_input",
+  CHARACTERS = "characters",
+  ADD_VEHICLE = "add_vehicle",
+  SET_VEHICLE_INPUT = "set_vehicle_input",
+  SHARED_TRANSFORMS = "shared_transforms",
+}
+
+// Captured world state, encoded by physics/snapshot.ts
+export interface PhysicsSnapshot {
+  time: number; // Simulated time in seconds when captured
+  step: number; // Fixed step count when captured
+  data: ArrayBuffer; // Binary body and constraint state
+}
+
+// Trigger overlap phases
+export enum PhysicsTriggerEventType {
+  ENTER = "enter",
+  EXIT = "exit",
+}
+
+// A body entering or leaving a trigger volume
+export interface PhysicsTriggerEvent {
+  type: PhysicsTriggerEventType;
+  triggerId: number;
+  otherId: number;
+}
+
+// How an area effect weakens towards the edge of its radius
+export enum PhysicsFalloff {
+  NONE = "none",
+  LINEAR = "linear",
+  QUADRATIC = "quadratic",
+}
+
+// A one-off radial impulse
+export interface PhysicsExplosionOptions {
+  position: [number, number, number];
+  radius: number;
+  strength: number; // Impulse applied to a body at the center
+  falloff?: PhysicsFalloff; // Defaults to linear
+  upwardBias?: number; // Extra upward push as a fraction of the impulse
+  collisionFilterMask?: number; // Groups affected (defaults to all)
+}
+
+// Kinds of persistent area effects
+export enum PhysicsForceFieldType {
+  WIND = "wind", // Constant force along a direction
+  ATTRACTOR = "attractor", // Acceleration towards (or away from) a point
+  GRAVITY = "gravity", // Replaces world gravity inside the region
+}
+
+// A persistent area effect applied every step; without radius or size the
+// region is unbounded
+export interface PhysicsForceFieldOptions {
+  type: PhysicsForceFieldType;
+  position?: [number, number, number]; // Region center, defaults to the origin
+  radius?: number; // Spherical region
+  size?: [number, number, number]; // Axis-aligned box region
+  direction?: [number, number, number]; // For wind
+  strength?: number; // Wind force in N, or attractor acceleration (negative repels)
+  falloff?: PhysicsFalloff; // For attractors with a radius, defaults to none
+  gravity?: [number, number, number]; // For gravity
+  collisionFilterMask?: number; // Groups affected (defaults to all)
+}
+
+// A travelling sine wave on a water surface
+export interface PhysicsWaveOptions {
+  amplitude: number;
+  wavelength: number;
+  direction?: [number, number]; // XZ travel direction, defaults to +X
+  speed?: number; // Defaults to deep-water speed for the wavelength
+  phase?: number;
+}
+
+// A water surface sampled on a regular XZ grid, e.g. from a wave simulation
+// Heights are bilinearly interpolated, and clamped to the edge outside it
+export interface PhysicsWaterHeightfield {
+  heights: Float32Array; // Offsets from the level, row by row along +Z
+  columns: number; // Samples per row, along +X
+  rows: number;
+  origin: [number, number]; // XZ of the first sample
+  spacing: number; // Distance between neighbouring samples
+}
+
+// A body of water; the surface is level plus any heightfield and the sum of
+// any waves, and without a size the water extends forever (an ocean)
+export interface PhysicsWaterOptions {
+  level: number; // Surface height at rest
+  waves?: PhysicsWaveOptions[];
+  heightfield?: PhysicsWaterHeightfield; // Copied to the worker on each update
+  center?: [number, number]; // XZ center of a bounded pool
+  size?: [number, number]; // XZ extent of a bounded pool
+  depth?: number; // Depth below the level (defaults to unlimited)
+  density?: number; // Defaults to 1000 kg/m³
+  linearDrag?: number; // Velocity damping per second when fully submerged, defaults to 1
+  angularDrag?: number; // Spin damping per second when fully submerged, defaults to 1
+}
+
+// Water entry phases
+export enum PhysicsWaterEventType {
+  ENTER = "enter",
+  EXIT = "exit",
+}
+
+// A body touching or leaving a water surface
+export interface PhysicsWaterEvent {
+  type: PhysicsWaterEventType;
+  waterId: number;
+  bodyId: number;
+  point: [number, number, number]; // Body position at the surface crossing
+  velocity: [number, number, number]; // Body velocity, e.g. for splash size
+}
+
+// Raycast query modes
+export enum PhysicsRaycastMode {
+  CLOSEST = "closest",
+  ALL = "all",
+}
+
+// Filters for raycast and shape-cast queries
+export interface PhysicsRaycastOptions {
+  collisionFilterGroup?: number;
+  collisionFilterMask?: number;
+  skipBackfaces?: boolean;
+}
+
+// A single query hit
+export interface PhysicsRaycastHit {
+  bodyId: number;
+  point: [number, number, number]; // World-space hit point
+  normal: [number, number, number]; // World-space surface normal
+  distance: number; // Distance travelled from the query origin
+}
+
+// Collision event phases
+export enum PhysicsCollisionEventType {
+  BEGIN = "begin",
+  END = "end",
+}
+
+// A single contact between two bodies
+export interface PhysicsCollisionEvent {
+  type: PhysicsCollisionEventType;
+  bodyA: number;
+  bodyB: number;
+  point: [number, number, number]; // World-space contact point
+  normal: [number, number, number]; // World-space normal, from bodyA towards bodyB
+  impulse: number; // Impulse magnitude applied along the normal
 }
 
 // Messages from main thread to worker
@@ -40,6 +366,7 @@ export interface PhysicsWorkerInitMessage {
   type: PhysicsWorkerMessageType.INIT;
   gravity: [number, number, number];
   iterations?: number;
+  sharedTransforms?: boolean; // Sync through a SharedArrayBuffer instead of SYNC
 }
 
 export interface PhysicsWorkerAddBodyMessage {
@@ -55,7 +382,9 @@ export interface PhysicsWorkerRemoveBodyMessage {
 
 export interface PhysicsWorkerUpdateMessage {
   type: PhysicsWorkerMessageType.UPDATE;
-  dt: number;
+  dt: number; // Fixed step size in seconds
+  steps?: number; // Number of fixed steps to run (defaults to 1)
+  sequence?: number; // Echoed by the sync this update sends
 }
 
 export interface PhysicsWorkerApplyForceMessage {
@@ -84,21 +413,276 @@ export interface PhysicsWorkerSetVelocityMessage {
   velocity: [number, number, number];
 }
 
+export interface PhysicsWorkerSetRotationMessage {
+  type: PhysicsWorkerMessageType.SET_ROTATION;
+  id: number;
+  quaternion: [number, number, number, number];
+}
+
+export interface PhysicsWorkerSetAngularVelocityMessage {
+  type: PhysicsWorkerMessageType.SET_ANGULAR_VELOCITY;
+  id: number;
+  angularVelocity: [number, number, number];
+}
+
+export interface PhysicsWorkerSetMassMessage {
+  type: PhysicsWorkerMessageType.SET_MASS;
+  id: number;
+  mass: number;
+}
+
+export interface PhysicsWorkerExplodeMessage {
+  type: PhysicsWorkerMessageType.EXPLODE;
+  options: PhysicsExplosionOptions;
+}
+
+export interface PhysicsWorkerAddForceFieldMessage {
+  type: PhysicsWorkerMessageType.ADD_FORCE_FIELD;
+  id: number;
+  options: PhysicsForceFieldOptions;
+}
+
+export interface PhysicsWorkerRemoveForceFieldMessage {
+  type: PhysicsWorkerMessageType.REMOVE_FORCE_FIELD;
+  id: number;
+}
+
+export interface PhysicsWorkerAddWaterMessage {
+  type: PhysicsWorkerMessageType.ADD_WATER;
+  id: number;
+  options: PhysicsWaterOptions;
+}
+
+export interface PhysicsWorkerRemoveWaterMessage {
+  type: PhysicsWorkerMessageType.REMOVE_WATER;
+  id: number;
+}
+
+export interface PhysicsWorkerSetBodyTypeMessage {
+  type: PhysicsWorkerMessageType.SET_BODY_TYPE;
+  id: number;
+  bodyType: PhysicsBodyType;
+}
+
+export interface PhysicsWorkerApplyTorqueMessage {
+  type: PhysicsWorkerMessageType.APPLY_TORQUE;
+  id: number;
+  torque: [number, number, number];
+}
+
+export interface PhysicsWorkerWakeUpMessage {
+  type: PhysicsWorkerMessageType.WAKE_UP;
+  id: number;
+}
+
+export interface PhysicsWorkerSleepMessage {
+  type: PhysicsWorkerMessageType.SLEEP;
+  id: number;
+}
+
 export interface PhysicsWorkerGetBodyPropsMessage {
   type: PhysicsWorkerMessageType.GET_BODY_PROPS;
   id: number;
   requestId: string;
 }
 
+export interface PhysicsWorkerRaycastMessage {
+  type: PhysicsWorkerMessageType.RAYCAST;
+  mode: PhysicsRaycastMode;
+  from: [number, number, number];
+  to: [number, number, number];
+  options?: PhysicsRaycastOptions;
+  requestId: string;
+}
+
+export interface PhysicsWorkerSphereCastMessage {
+  type: PhysicsWorkerMessageType.SPHERE_CAST;
+  from: [number, number, number];
+  to: [number, number, number];
+  radius: number;
+  options?: PhysicsRaycastOptions;
+  requestId: string;
+}
+
+export interface PhysicsWorkerAddConstraintMessage {
+  type: PhysicsWorkerMessageType.ADD_CONSTRAINT;
+  id: number;
+  options: PhysicsConstraintOptions;
+}
+
+export interface PhysicsWorkerRemoveConstraintMessage {
+  type: PhysicsWorkerMessageType.REMOVE_CONSTRAINT;
+  id: number;
+}
+
+export interface PhysicsWorkerSetHingeMotorMessage {
+  type: PhysicsWorkerMessageType.SET_HINGE_MOTOR;
+  id: number;
+  motor: PhysicsHingeMotorOptions;
+}
+
+export interface PhysicsWorkerAddMaterialMessage {
+  type: PhysicsWorkerMessageType.ADD_MATERIAL;
+  name: string;
+  options: PhysicsMaterialOptions;
+}
+
+export interface PhysicsWorkerAddContactMaterialMessage {
+  type: PhysicsWorkerMessageType.ADD_CONTACT_MATERIAL;
+  materialA: string;
+  materialB: string;
+  options: PhysicsContactMaterialOptions;
+}
+
+export interface PhysicsWorkerSnapshotMessage {
+  type: PhysicsWorkerMessageType.SNAPSHOT;
+  requestId: string;
+}
+
+export interface PhysicsWorkerRestoreMessage {
+  type: PhysicsWorkerMessageType.RESTORE;
+  snapshot: PhysicsSnapshot;
+  requestId: string;
+  sequence?: number; // Echoed by the sync the restore sends
+}
+
+export interface PhysicsWorkerSetRewindBufferMessage {
+  type: PhysicsWorkerMessageType.SET_REWIND_BUFFER;
+  size: number; // Number of steps to keep, 0 disables recording
+}
+
+export interface PhysicsWorkerRewindMessage {
+  type: PhysicsWorkerMessageType.REWIND;
+  steps: number;
+  requestId: string;
+  sequence?: number; // Echoed by the sync the rewind sends
+}
+
+export interface PhysicsWorkerSetDebugMessage {
+  type: PhysicsWorkerMessageType.SET_DEBUG;
+  enabled: boolean;
+}
+
+export interface PhysicsWorkerAddCharacterMessage {
+  type: PhysicsWorkerMessageType.ADD_CHARACTER;
+  id: number;
+  options: PhysicsCharacterOptions;
+}
+
+export interface PhysicsWorkerSetCharacterInputMessage {
+  type: PhysicsWorkerMessageType.SET_CHARACTER_INPUT;
+  id: number;
+  move: [number, number, number]; // World-space direction, length up to 1
+  jump: boolean; // Jump pressed this frame
+}
+
+export interface PhysicsWorkerAddVehicleMessage {
+  type: PhysicsWorkerMessageType.ADD_VEHICLE;
+  id: number;
+  options: PhysicsVehicleOptions;
+}
+
+export interface PhysicsWorkerSetVehicleInputMessage {
+  type: PhysicsWorkerMessageType.SET_VEHICLE_INPUT;
+  id: number;
+  input: PhysicsVehicleInput;
+}
+
 // Messages from worker to main thread
 export interface PhysicsWorkerSyncMessage {
   type: PhysicsWorkerMessageType.SYNC;
+  sequence: number; // Latest sequence the worker had received when it synced
   bodies: {
+    count: number; // Number of valid slots (arrays may be longer)
+    ids: Uint32Array; // Body ID for each slot in positions/quaternions
+    positions: Float32Array;
+    quaternions: Float32Array;
+    previousPositions: Float32Array; // One step before, for interpolation
+    previousQuaternions: Float32Array;
+  };
+  wheels?: {
+    count: number; // Number of valid slots
+    vehicleIds: Uint32Array; // Vehicle (chassis body) ID per wheel, in wheel order
     positions: Float32Array;
     quaternions: Float32Array;
+    previousPositions: Float32Array; // One step before, for interpolation
+    previousQuaternions: Float32Array;
   };
 }
 
+// Sent whenever the worker (re)allocates the shared transform buffer
+export interface PhysicsWorkerSharedTransformsMessage {
+  type: PhysicsWorkerMessageType.SHARED_TRANSFORMS;
+  buffer: SharedArrayBuffer;
+  bodyCapacity: number;
+  wheelCapacity: number;
+}
+
+export interface PhysicsWorkerCollisionsMessage {
+  type: PhysicsWorkerMessageType.COLLISIONS;
+  events: PhysicsCollisionEvent[];
+}
+
+export interface PhysicsWorkerWaterEventsMessage {
+  type: PhysicsWorkerMessageType.WATER_EVENTS;
+  events: PhysicsWaterEvent[];
+}
+
+export interface PhysicsWorkerTriggersMessage {
+  type: PhysicsWorkerMessageType.TRIGGERS;
+  events: PhysicsTriggerEvent[];
+}
+
+export interface PhysicsWorkerQueryResultMessage {
+  type: PhysicsWorkerMessageType.RAYCAST | PhysicsWorkerMessageType.SPHERE_CAST;
+  requestId: string;
+  hits: PhysicsRaycastHit[];
+}
+
+export interface PhysicsWorkerSnapshotResultMessage {
+  type: PhysicsWorkerMessageType.SNAPSHOT;
+  requestId: string;
+  snapshot: PhysicsSnapshot;
+}
+
+export interface PhysicsWorkerRestoreResultMessage {
+  type: PhysicsWorkerMessageType.RESTORE;
+  requestId: string;
+  error?: string; // Why the snapshot was refused, if it was
+}
+
+export interface PhysicsWorkerRewindResultMessage {
+  type: PhysicsWorkerMessageType.REWIND;
+  requestId: string;
+  steps: number; // Steps actually rewound
+}
+
+// Collider shapes of a body, in body-local space
+// Convex, cylinder and heightfield shapes are described as triangle meshes
+export interface PhysicsDebugBodyShapes {
+  id: number;
+  shapes: PhysicsCompoundChildOptions[];
+}
+
+export interface PhysicsWorkerDebugShapesMessage {
+  type: PhysicsWorkerMessageType.DEBUG_SHAPES;
+  bodies: PhysicsDebugBodyShapes[];
+}
+
+export interface PhysicsWorkerDebugFrameMessage {
+  type: PhysicsWorkerMessageType.DEBUG_FRAME;
+  ids: Uint32Array; // Body ID per slot
+  sleepStates: Uint8Array; // Sleep state per slot
+  aabbs: Float32Array; // Lower and upper bound per slot (6 values)
+  contacts: Float32Array; // Point and normal per contact (6 values)
+  links: Float32Array; // World-space anchors per constraint (6 values)
+}
+
+export interface PhysicsWorkerCharactersMessage {
+  type: PhysicsWorkerMessageType.CHARACTERS;
+  states: PhysicsCharacterState[];
+}
+
 export interface PhysicsBodyProperties {
   mass: number;
   position: [number, number, number];
@@ -120,8 +704,47 @@ export type PhysicsWorkerIncomingMessage =
   | PhysicsWorkerApplyImpulseMessage
   | PhysicsWorkerSetPositionMessage
   | PhysicsWorkerSetVelocityMessage
-  | PhysicsWorkerGetBodyPropsMessage;
+  | PhysicsWorkerSetRotationMessage
+  | PhysicsWorkerSetAngularVelocityMessage
+  | PhysicsWorkerSetMassMessage
+  | PhysicsWorkerSetBodyTypeMessage
+  | PhysicsWorkerExplodeMessage
+  | PhysicsWorkerAddForceFieldMessage
+  | PhysicsWorkerRemoveForceFieldMessage
+  | PhysicsWorkerAddWaterMessage
+  | PhysicsWorkerRemoveWaterMessage
+  | PhysicsWorkerApplyTorqueMessage
+  | PhysicsWorkerWakeUpMessage
+  | PhysicsWorkerSleepMessage
+  | PhysicsWorkerGetBodyPropsMessage
+  | PhysicsWorkerRaycastMessage
+  | PhysicsWorkerSphereCastMessage
+  | PhysicsWorkerAddConstraintMessage
+  | PhysicsWorkerRemoveConstraintMessage
+  | PhysicsWorkerSetHingeMotorMessage
+  | PhysicsWorkerAddMaterialMessage
+  | PhysicsWorkerAddContactMaterialMessage
+  | PhysicsWorkerSnapshotMessage
+  | PhysicsWorkerRestoreMessage
+  | PhysicsWorkerSetRewindBufferMessage
+  | PhysicsWorkerRewindMessage
+  | PhysicsWorkerSetDebugMessage
+  | PhysicsWorkerAddCharacterMessage
+  | PhysicsWorkerSetCharacterInputMessage
+  | PhysicsWorkerAddVehicleMessage
+  | PhysicsWorkerSetVehicleInputMessage;
 
 export type PhysicsWorkerOutgoingMessage =
   | PhysicsWorkerSyncMessage
+  | PhysicsWorkerSharedTransformsMessage
+  | PhysicsWorkerCollisionsMessage
+  | PhysicsWorkerTriggersMessage
+  | PhysicsWorkerWaterEventsMessage
+  | PhysicsWorkerQueryResultMessage
+  | PhysicsWorkerSnapshotResultMessage
+  | PhysicsWorkerRestoreResultMessage
+  | PhysicsWorkerRewindResultMessage
+  | PhysicsWorkerDebugShapesMessage
+  | PhysicsWorkerDebugFrameMessage
+  | PhysicsWorkerCharactersMessage
   | PhysicsBodyProperties;
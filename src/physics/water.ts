@@ -0,0 +1,97 @@
+import { PhysicsWaterHeightfield, PhysicsWaterOptions } from "./types";
+
+/** Gravity used for the default wave speed */
+const GRAVITY = 9.82;
+
+/**
+ * Gets the height of a water surface
+ * Shared by the worker and the main thread so visuals match the buoyancy
+ * @param water The water options
+ * @param x World X
+ * @param z World Z
+ * @param time Simulated time in seconds
+ * @returns The surface height at (x, z)
+ */
+export function waterHeight(
+  water: PhysicsWaterOptions,
+  x: number,
+  z: number,
+  time: number
+): number {
+  let height = water.level;
+  if (water.heightfield) height += sampleHeightfield(water.heightfield, x, z);
+
+  for (const wave of water.waves ?? []) {
+    const [dx, dz] = wave.direction ?? [1, 0];
+    const length = Math.hypot(dx, dz) || 1;
+    const k = (2 * Math.PI) / wave.wavelength;
+    const speed = wave.speed ?? Math.sqrt(GRAVITY / k);
+    const distance = (x * dx + z * dz) / length;
+
+    height +=
+      wave.amplitude *
+      Math.sin(k * (distance - speed * time) + (wave.phase ?? 0));
+  }
+
+  return height;
+}
+
+/**
+ * Bilinearly interpolates a sampled water surface
+ * @param field The heightfield
+ * @param x World X
+ * @param z World Z
+ * @returns The height offset at (x, z), from the nearest edge outside the grid
+ */
+export function sampleHeightfield(
+  field: PhysicsWaterHeightfield,
+  x: number,
+  z: number
+): number {
+  const { heights, columns, rows, origin, spacing } = field;
+  if (columns < 1 || rows < 1) return 0;
+
+  // Grid coordinates, clamped to the samples
+  const u = Math.min(Math.max((x - origin[0]) / spacing, 0), columns - 1);
+  const v = Math.min(Math.max((z - origin[1]) / spacing, 0), rows - 1);
+  const column = Math.min(Math.floor(u), columns - 2);
+  const row = Math.min(Math.floor(v), rows - 2);
+
+  // Single rows or columns have nothing to blend with
+  if (column < 0 || row < 0) {
+    return heights[Math.round(v) * columns + Math.round(u)];
+  }
+
+  const fu = u - column;
+  const fv = v - row;
+  const i = row * columns + column;
+  const near = heights[i] + (heights[i + 1] - heights[i]) * fu;
+  const far =
+    heights[i + columns] +
+    (heights[i + columns + 1] - heights[i + columns]) * fu;
+  return near + (far - near) * fv;
+}
+
+/**
+ * Checks whether a point lies within a water body's horizontal bounds and
+ * above its floor
+ * @param water The water options
+ * @param x World X
+ * @param y World Y
+ * @param z World Z
+ */
+export function withinWaterBounds(
+  water: PhysicsWaterOptions,
+  x: number,
+  y: number,
+  z: number
+): boolean {
+  if (water.depth !== undefined && y < water.level - water.depth) return false;
+  if (!water.size) return true;
+
+  const [cx, cz] = water.center ?? [0, 0];
+  return (
+    Math.abs(x - cx) <= water.size[0] / 2 &&
+    Math.abs(z - cz) <= water.size[1] / 2
+  );
+}
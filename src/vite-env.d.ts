@@ -30,24 +30,6 @@ declare module "three/examples/jsm/libs/stats.module" {
   export default Stats;
 }
 
-// Add type declaration for cannon-es-debugger
-declare module "cannon-es-debugger" {
-  import { Scene } from "three";
-  import { World } from "cannon-es";
-
-  interface CannonDebuggerOptions {
-    world: World;
-    [key: string]: any;
-  }
-
-  class CannonDebugger {
-    constructor(scene: Scene, options: CannonDebuggerOptions);
-    update(): void;
-  }
-
-  export default CannonDebugger;
-}
-
 // Add type declaration for the GLTFLoader
 declare module "three/examples/jsm/loaders/GLTFLoader" {
   import { Group, Loader, LoadingManager, Object3D } from "three";
@@ -0,0 +1,298 @@
+import * as CANNON from "cannon-es";
+import { PhysicsCharacterOptions } from "../physics/types";
+
+/** Extra distance below the capsule still counted as standing */
+const GROUND_SKIN = 0.05;
+
+/** Horizontal offsets of the ground probes, as fractions of the radius */
+const PROBE_OFFSETS: [number, number][] = [
+  [0, 0],
+  [0.6, 0],
+  [-0.6, 0],
+  [0, 0.6],
+  [0, -0.6],
+];
+
+/**
+ * Closest surface found by a probe ray
+ */
+interface ProbeHit {
+  distance: number;
+  point: CANNON.Vec3;
+  normal: CANNON.Vec3;
+  body: CANNON.Body;
+}
+
+/**
+ * Drives a capsule body from a move vector inside the physics worker
+ * Runs before every fixed step so ground checks, step-up and platform
+ * carry all see the same world the solver does
+ */
+export class CharacterMotor {
+  /** Whether the character is standing on walkable ground */
+  grounded = false;
+
+  /** Normal of the ground below the character (up when airborne) */
+  groundNormal = new CANNON.Vec3(0, 1, 0);
+
+  /** Body the character is standing on */
+  groundBody: CANNON.Body | null = null;
+
+  private radius: number;
+  private halfHeight: number;
+  private speed: number;
+  private acceleration: number;
+  private airControl: number;
+  private jumpSpeed: number;
+  private minGroundNormalY: number;
+  private stepHeight: number;
+  private coyoteTime: number;
+  private jumpBufferTime: number;
+
+  /** Requested world-space move direction */
+  private move = new CANNON.Vec3();
+
+  /** Time left before a buffered jump press expires */
+  private jumpBuffer = 0;
+
+  /** Time since the character last stood on walkable ground */
+  private timeSinceGrounded = Infinity;
+
+  /** Whether the character is rising from a jump */
+  private jumping = false;
+
+  /**
+   * Creates a motor for a character body
+   * @param world The world the body lives in
+   * @param body The character's capsule body
+   * @param options Character tuning
+   */
+  constructor(
+    private world: CANNON.World,
+    readonly body: CANNON.Body,
+    options: PhysicsCharacterOptions
+  ) {
+    this.radius = options.radius ?? 0.4;
+    this.halfHeight = (options.height ?? 1.8) / 2;
+    this.speed = options.speed ?? 5;
+    this.acceleration = options.acceleration ?? 12;
+    this.airControl = options.airControl ?? 0.3;
+    this.jumpSpeed = options.jumpSpeed ?? 6;
+    this.minGroundNormalY = Math.cos(options.maxSlope ?? Math.PI / 4);
+    this.stepHeight = options.stepHeight ?? 0.3;
+    this.coyoteTime = options.coyoteTime ?? 0.1;
+    this.jumpBufferTime = options.jumpBufferTime ?? 0.1;
+  }
+
+  /**
+   * Sets the input for the following steps
+   * @param move World-space move direction, length up to 1 (Y is ignored)
+   * @param jump Whether jump was pressed
+   */
+  setInput(move: [number, number, number], jump: boolean): void {
+    this.move.set(move[0], 0, move[2]);
+    const length = this.move.length();
+    if (length > 1) this.move.scale(1 / length, this.move);
+
+    if (jump) this.jumpBuffer = this.jumpBufferTime;
+  }
+
+  /**
+   * Advances the character by one fixed step, before the world steps
+   * @param dt Fixed step size in seconds
+   */
+  update(dt: number): void {
+    const body = this.body;
+    const velocity = body.velocity;
+
+    this.probeGround();
+
+    // Track how long ago the character could last jump from the ground
+    if (this.grounded) {
+      this.timeSinceGrounded = 0;
+      if (velocity.y <= 0) this.jumping = false;
+    } else {
+      this.timeSinceGrounded += dt;
+    }
+
+    // Desired horizontal velocity, plus whatever the ground is doing
+    const target = this.move.scale(this.speed);
+    const platformVelocity = this.groundVelocity();
+    target.x += platformVelocity.x;
+    target.z += platformVelocity.z;
+
+    // Don't let input push the character up a slope that is too steep
+    if (!this.grounded && this.groundNormal.y < this.minGroundNormalY) {
+      const away = new CANNON.Vec3(this.groundNormal.x, 0, this.groundNormal.z);
+      if (away.normalize() > 0) {
+        const into = target.dot(away);
+        if (into < 0) target.vsub(away.scale(into), target);
+      }
+    }
+
+    // Accelerate towards the target, with reduced control in the air
+    const control = this.grounded ? 1 : this.airControl;
+    const blend = Math.min(1, this.acceleration * control * dt);
+    velocity.x += (target.x - velocity.x) * blend;
+    velocity.z += (target.z - velocity.z) * blend;
+
+    if (this.grounded && !this.jumping) {
+      this.stepUp(target);
+    }
+
+    // Jump, allowing for a short grace period after leaving the ground
+    if (this.jumpBuffer > 0) {
+      if (!this.jumping && this.timeSinceGrounded <= this.coyoteTime) {
+        velocity.y = this.jumpSpeed + Math.max(platformVelocity.y, 0);
+        this.jumping = true;
+        this.grounded = false;
+        this.jumpBuffer = 0;
+        this.timeSinceGrounded = Infinity;
+      } else {
+        this.jumpBuffer = Math.max(0, this.jumpBuffer - dt);
+      }
+    }
+  }
+
+  /**
+   * Finds the ground below the capsule and snaps onto it when close
+   */
+  private probeGround(): void {
+    const body = this.body;
+    const wasGrounded = this.grounded;
+    const reach = this.halfHeight + this.stepHeight;
+
+    // Several probes across the footprint so ledges don't drop the character
+    let walkable: ProbeHit | null = null;
+    let steep: ProbeHit | null = null;
+    for (const [x, z] of PROBE_OFFSETS) {
+      const from = new CANNON.Vec3(
+        body.position.x + x * this.radius,
+        body.position.y,
+        body.position.z + z * this.radius
+      );
+      const hit = this.cast(from, new CANNON.Vec3(0, -1, 0), reach);
+      if (!hit) continue;
+
+      if (hit.normal.y >= this.minGroundNormalY) {
+        if (!walkable || hit.distance < walkable.distance) walkable = hit;
+      } else if (!steep || hit.distance < steep.distance) {
+        steep = hit;
+      }
+    }
+
+    const ground = walkable ?? steep;
+    this.groundBody = ground?.body ?? null;
+    this.groundNormal.copy(ground?.normal ?? new CANNON.Vec3(0, 1, 0));
+
+    if (!walkable) {
+      this.grounded = false;
+      return;
+    }
+
+    const gap = walkable.distance - this.halfHeight;
+    if (gap <= GROUND_SKIN) {
+      this.grounded = true;
+    } else if (wasGrounded && !this.jumping && body.velocity.y <= 0) {
+      // Within step height of where we stood last step: follow it down
+      body.position.y -= gap;
+      this.grounded = true;
+    } else {
+      this.grounded = false;
+    }
+
+    if (this.grounded && !this.jumping && body.velocity.y < 0) {
+      body.velocity.y = 0;
+    }
+  }
+
+  /**
+   * Lifts the character onto a low ledge it is walking into
+   * @param target Desired horizontal velocity
+   */
+  private stepUp(target: CANNON.Vec3): void {
+    const direction = new CANNON.Vec3(target.x, 0, target.z);
+    if (direction.normalize() < 0.01) return;
+
+    const body = this.body;
+    const bottom = body.position.y - this.halfHeight;
+    const reach = this.radius + 0.1;
+
+    // Something blocking at foot level?
+    const foot = new CANNON.Vec3(
+      body.position.x,
+      bottom + 0.02,
+      body.position.z
+    );
+    const wall = this.cast(foot, direction, reach);
+    if (!wall || wall.normal.y >= this.minGroundNormalY) return;
+
+    // Is there walkable ground on top of it within step height?
+    const above = new CANNON.Vec3(
+      body.position.x + direction.x * reach,
+      bottom + this.stepHeight + 0.01,
+      body.position.z + direction.z * reach
+    );
+    const top = this.cast(above, new CANNON.Vec3(0, -1, 0), this.stepHeight);
+    if (!top || top.normal.y < this.minGroundNormalY) return;
+
+    const rise = top.point.y - bottom;
+    if (rise > 0.01 && rise <= this.stepHeight) {
+      body.position.y += rise + 0.01;
+      body.velocity.y = Math.max(body.velocity.y, 0);
+    }
+  }
+
+  /**
+   * Velocity of the ground directly below the character
+   * @returns The ground's point velocity, or zero when airborne
+   */
+  private groundVelocity(): CANNON.Vec3 {
+    const ground = this.groundBody;
+    if (!this.grounded || !ground || ground.type === CANNON.Body.STATIC) {
+      return new CANNON.Vec3();
+    }
+
+    // Linear velocity plus the rotation's contribution at our position
+    const offset = this.body.position.vsub(ground.position);
+    return ground.velocity.vadd(ground.angularVelocity.cross(offset));
+  }
+
+  /**
+   * Casts a ray that ignores the character itself and trigger volumes
+   * @param from World-space origin
+   * @param direction Unit direction
+   * @param length Ray length
+   * @returns The closest hit, or null
+   */
+  private cast(
+    from: CANNON.Vec3,
+    direction: CANNON.Vec3,
+    length: number
+  ): ProbeHit | null {
+    const to = from.vadd(direction.scale(length));
+    let closest: ProbeHit | null = null;
+
+    this.world.raycastAll(
+      from,
+      to,
+      {
+        collisionFilterGroup: this.body.collisionFilterGroup,
+        collisionFilterMask: this.body.collisionFilterMask,
+      },
+      (result) => {
+        if (!result.body || result.body === this.body) return;
+        if (!closest || result.distance < closest.distance) {
+          closest = {
+            distance: result.distance,
+            point: result.hitPointWorld.clone(),
+            normal: result.hitNormalWorld.clone(),
+            body: result.body,
+          };
+        }
+      }
+    );
+
+    return closest;
+  }
+}
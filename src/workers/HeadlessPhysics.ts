@@ -0,0 +1,167 @@
+import { PhysicsSimulation } from "./PhysicsSimulation";
+import {
+  PhysicsBodyProperties,
+  PhysicsObjectOptions,
+  PhysicsWorkerIncomingMessage,
+  PhysicsWorkerMessageType,
+  PhysicsWorkerOutgoingMessage,
+  PhysicsWorkerSyncMessage,
+} from "../physics/types";
+
+/**
+ * Outgoing message of a given type, including messages shared by several
+ * types such as raycast and sphere-cast results
+ * Body properties replies are left out: their type field is the body type
+ */
+type OutgoingOfType<T extends PhysicsWorkerMessageType> =
+  PhysicsWorkerOutgoingMessage extends infer M
+    ? M extends { type: infer U }
+      ? string extends U
+        ? never
+        : T extends U
+        ? M
+        : never
+      : never
+    : never;
+
+/**
+ * Headless simulation configuration options
+ */
+export interface HeadlessPhysicsOptions {
+  /** World gravity (defaults to the same as PhysicsWorld) */
+  gravity?: [number, number, number];
+  /** Solver iterations (defaults to 10) */
+  iterations?: number;
+}
+
+/**
+ * Runs the physics simulation in-process, without a worker or a renderer,
+ * e.g. for deterministic tests under Node
+ * Messages the simulation would post to the main thread are queued instead,
+ * and are delivered without structured cloning
+ */
+export class HeadlessPhysics {
+  /** The simulation being driven */
+  readonly simulation: PhysicsSimulation;
+
+  /** Messages posted by the simulation and not yet taken */
+  private outbox: PhysicsWorkerOutgoingMessage[] = [];
+
+  /** Counter for body property request IDs */
+  private nextRequestId = 1;
+
+  /**
+   * Creates and initializes a simulation
+   * @param options Simulation configuration
+   */
+  constructor(options: HeadlessPhysicsOptions = {}) {
+    this.simulation = new PhysicsSimulation((message) => {
+      this.outbox.push(message);
+    });
+
+    this.send({
+      type: PhysicsWorkerMessageType.INIT,
+      gravity: options.gravity ?? [0, -9.82, 0],
+      iterations: options.iterations ?? 10,
+    });
+  }
+
+  /**
+   * Delivers a message to the simulation, as PhysicsWorld would
+   * @param message The message
+   */
+  send(message: PhysicsWorkerIncomingMessage): void {
+    this.simulation.handleMessage(message);
+  }
+
+  /**
+   * Adds a body
+   * @param id The body ID
+   * @param options Body options
+   */
+  addBody(id: number, options: PhysicsObjectOptions): void {
+    this.send({ type: PhysicsWorkerMessageType.ADD_BODY, id, options });
+  }
+
+  /**
+   * Removes a body
+   * @param id The body ID
+   */
+  removeBody(id: number): void {
+    this.send({ type: PhysicsWorkerMessageType.REMOVE_BODY, id });
+  }
+
+  /**
+   * Advances the simulation by whole fixed steps
+   * @param steps Number of steps
+   * @param dt Step size in seconds
+   */
+  step(steps = 1, dt = 1 / 60): void {
+    this.send({ type: PhysicsWorkerMessageType.UPDATE, dt, steps });
+  }
+
+  /**
+   * Removes and returns every queued message of a type
+   * @param type The message type
+   * @returns The messages, oldest first
+   */
+  take<T extends PhysicsWorkerMessageType>(type: T): OutgoingOfType<T>[] {
+    const taken: OutgoingOfType<T>[] = [];
+    this.outbox = this.outbox.filter((message) => {
+      if (message.type !== type) return true;
+      taken.push(message as OutgoingOfType<T>);
+      return false;
+    });
+    return taken;
+  }
+
+  /**
+   * Removes every queued SYNC message and returns the newest
+   */
+  latestSync(): PhysicsWorkerSyncMessage | undefined {
+    const syncs = this.take(PhysicsWorkerMessageType.SYNC);
+    return syncs[syncs.length - 1] as PhysicsWorkerSyncMessage | undefined;
+  }
+
+  /**
+   * Gets the latest synced pose of a body
+   * @param id The body ID
+   * @returns Position and quaternion, or undefined if the body wasn't synced
+   */
+  getPose(
+    id: number
+  ): { position: number[]; quaternion: number[] } | undefined {
+    const sync = this.latestSync();
+    if (!sync) return undefined;
+
+    const { count, ids, positions, quaternions } = sync.bodies;
+    for (let i = 0; i < count; i++) {
+      if (ids[i] !== id) continue;
+      return {
+        position: Array.from(positions.subarray(i * 3, i * 3 + 3)),
+        quaternion: Array.from(quaternions.subarray(i * 4, i * 4 + 4)),
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Queries a body's properties; answered synchronously in-process
+   * @param id The body ID
+   * @returns The properties, or undefined if the body doesn't exist
+   */
+  getBodyProperties(id: number): PhysicsBodyProperties | undefined {
+    const requestId = `headless-${this.nextRequestId++}`;
+    this.send({
+      type: PhysicsWorkerMessageType.GET_BODY_PROPS,
+      id,
+      requestId,
+    });
+
+    const index = this.outbox.findIndex(
+      (message) => (message as PhysicsBodyProperties).requestId === requestId
+    );
+    if (index < 0) return undefined;
+    return this.outbox.splice(index, 1)[0] as PhysicsBodyProperties;
+  }
+}
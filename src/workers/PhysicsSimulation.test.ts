@@ -0,0 +1,593 @@
+import { describe, expect, it, vi } from "vitest";
+import * as CANNON from "cannon-es";
+import { HeadlessPhysics } from "./HeadlessPhysics";
+import {
+  PhysicsForceFieldType,
+  PhysicsObjectOptions,
+  PhysicsRaycastMode,
+  PhysicsShapeType,
+  PhysicsTriggerEventType,
+  PhysicsWaterEventType,
+  PhysicsWorkerMessageType,
+} from "../physics/types";
+
+// A 1 kg unit box at the given position
+const box = (position: [number, number, number]): PhysicsObjectOptions => ({
+  type: PhysicsShapeType.BOX,
+  size: [1, 1, 1],
+  mass: 1,
+  position,
+});
+
+describe("PhysicsSimulation", () => {
+  describe("bodies", () => {
+    it("syncs added bodies", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, box([0, 5, 0]));
+      physics.step();
+
+      const sync = physics.latestSync();
+      expect(sync?.bodies.count).toBe(1);
+      expect(sync?.bodies.ids[0]).toBe(1);
+    });
+
+    it("stops syncing removed bodies", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, box([0, 5, 0]));
+      physics.addBody(2, box([3, 5, 0]));
+      physics.removeBody(1);
+      physics.step();
+
+      const sync = physics.latestSync()!;
+      expect(sync.bodies.count).toBe(1);
+      expect(Array.from(sync.bodies.ids.subarray(0, 1))).toEqual([2]);
+      expect(physics.getBodyProperties(1)).toBeUndefined();
+    });
+
+    it("ignores removing an unknown body", () => {
+      const physics = new HeadlessPhysics();
+      expect(() => physics.removeBody(42)).not.toThrow();
+    });
+  });
+
+  describe("sync ordering", () => {
+    it("pairs every pose with its own body ID after removals and re-adds", () => {
+      const physics = new HeadlessPhysics({ gravity: [0, 0, 0] });
+      physics.addBody(1, box([1, 0, 0]));
+      physics.addBody(2, box([2, 0, 0]));
+      physics.addBody(3, box([3, 0, 0]));
+      physics.removeBody(2);
+      physics.addBody(4, box([4, 0, 0]));
+      physics.step();
+
+      const sync = physics.latestSync()!;
+      const { count, ids, positions } = sync.bodies;
+      expect(count).toBe(3);
+
+      const seen: number[] = [];
+      for (let i = 0; i < count; i++) {
+        seen.push(ids[i]);
+        // Each body was placed at x equal to its ID
+        expect(positions[i * 3]).toBeCloseTo(ids[i]);
+      }
+      expect(seen.sort()).toEqual([1, 3, 4]);
+    });
+
+    it("sends one sync per update, however many steps it runs", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, box([0, 5, 0]));
+      physics.step(4);
+
+      expect(physics.take(PhysicsWorkerMessageType.SYNC)).toHaveLength(1);
+    });
+
+    it("reports the pose one step before the latest, however many steps ran", () => {
+      const stepped = new HeadlessPhysics();
+      stepped.addBody(1, box([0, 5, 0]));
+      stepped.step(3);
+      const beforeLast = stepped.getPose(1)!.position;
+      stepped.step(1);
+      const latest = stepped.getPose(1)!.position;
+
+      // The same fall, caught up in one update
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, box([0, 5, 0]));
+      physics.step(4);
+
+      const { positions, previousPositions } = physics.latestSync()!.bodies;
+      expect(positions[1]).toBeCloseTo(latest[1], 6);
+      expect(previousPositions[1]).toBeCloseTo(beforeLast[1], 6);
+    });
+
+    it("stamps syncs with the sequence of the update that sent them", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, box([0, 5, 0]));
+      physics.send({
+        type: PhysicsWorkerMessageType.UPDATE,
+        dt: 1 / 60,
+        sequence: 7,
+      });
+      // A teleport is applied by the update after it
+      physics.send({
+        type: PhysicsWorkerMessageType.SET_POSITION,
+        id: 1,
+        position: [10, 0, 0],
+      });
+      physics.send({
+        type: PhysicsWorkerMessageType.UPDATE,
+        dt: 1 / 60,
+        sequence: 8,
+      });
+
+      const syncs = physics.take(PhysicsWorkerMessageType.SYNC);
+      expect(syncs.map((sync) => sync.sequence)).toEqual([7, 8]);
+      expect(syncs[0].bodies.positions[0]).toBe(0);
+      expect(syncs[1].bodies.positions[0]).toBe(10);
+    });
+
+    it("is deterministic", () => {
+      const run = () => {
+        const physics = new HeadlessPhysics();
+        physics.addBody(1, box([0, 5, 0]));
+        physics.addBody(2, box([0.2, 6.5, 0.1]));
+        physics.addBody(3, {
+          type: PhysicsShapeType.PLANE,
+          mass: 0,
+          position: [0, 0, 0],
+          quaternion: [-Math.SQRT1_2, 0, 0, Math.SQRT1_2],
+        });
+        physics.step(120);
+        return physics.getPose(2);
+      };
+
+      expect(run()).toEqual(run());
+    });
+  });
+
+  describe("forces", () => {
+    it("accelerates a body under an applied force", () => {
+      const physics = new HeadlessPhysics({ gravity: [0, 0, 0] });
+      physics.addBody(1, box([0, 5, 0]));
+      physics.send({
+        type: PhysicsWorkerMessageType.APPLY_FORCE,
+        id: 1,
+        force: [60, 0, 0],
+      });
+      physics.step(1, 1 / 60);
+
+      // F = ma over one step: dv = F / m * dt
+      const props = physics.getBodyProperties(1)!;
+      expect(props.velocity[0]).toBeCloseTo(1, 5);
+    });
+
+    it("changes velocity by impulse over mass", () => {
+      const physics = new HeadlessPhysics({ gravity: [0, 0, 0] });
+      physics.addBody(1, { ...box([0, 5, 0]), mass: 2 });
+      physics.send({
+        type: PhysicsWorkerMessageType.APPLY_IMPULSE,
+        id: 1,
+        impulse: [0, 0, 4],
+      });
+
+      const props = physics.getBodyProperties(1)!;
+      expect(props.velocity[2]).toBeCloseTo(2);
+    });
+
+    it("doesn't spin a body pushed through its center", () => {
+      const physics = new HeadlessPhysics({ gravity: [0, 0, 0] });
+      physics.addBody(1, box([3, 5, -2]));
+      physics.send({
+        type: PhysicsWorkerMessageType.APPLY_IMPULSE,
+        id: 1,
+        impulse: [1, 0, 0],
+      });
+
+      const props = physics.getBodyProperties(1)!;
+      expect(props.angularVelocity).toEqual([0, 0, 0]);
+    });
+
+    it("spins a body pushed off center", () => {
+      const physics = new HeadlessPhysics({ gravity: [0, 0, 0] });
+      physics.addBody(1, box([0, 5, 0]));
+      physics.send({
+        type: PhysicsWorkerMessageType.APPLY_IMPULSE,
+        id: 1,
+        impulse: [1, 0, 0],
+        worldPoint: [0, 5.5, 0],
+      });
+
+      const props = physics.getBodyProperties(1)!;
+      expect(props.angularVelocity[2]).toBeLessThan(0);
+    });
+
+    it("makes bodies fall under gravity", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, box([0, 5, 0]));
+      physics.step(60);
+
+      expect(physics.getPose(1)!.position[1]).toBeLessThan(1);
+    });
+  });
+
+  describe("force fields", () => {
+    const floor: PhysicsObjectOptions = {
+      type: PhysicsShapeType.BOX,
+      size: [20, 1, 20],
+      mass: 0,
+      position: [0, -0.5, 0],
+    };
+
+    it("lets contacts hold bodies against a field's force", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, floor);
+      physics.addBody(2, box([0, 0.5, 0]));
+      physics.send({
+        type: PhysicsWorkerMessageType.ADD_FORCE_FIELD,
+        id: 1,
+        options: { type: PhysicsForceFieldType.GRAVITY, gravity: [0, -30, 0] },
+      });
+      physics.step(10);
+
+      // Forces added after the solver would push it into the floor
+      expect(physics.getPose(2)!.position[1]).toBeCloseTo(0.5, 2);
+    });
+
+    it("wakes bodies asleep in a gravity region", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, floor);
+      physics.addBody(2, box([0, 0.5, 0]));
+      physics.step(300);
+      const restingHeight = physics.getPose(2)!.position[1];
+
+      physics.send({
+        type: PhysicsWorkerMessageType.ADD_FORCE_FIELD,
+        id: 1,
+        options: { type: PhysicsForceFieldType.GRAVITY, gravity: [0, 5, 0] },
+      });
+      physics.step(30);
+
+      expect(physics.getPose(2)!.position[1]).toBeGreaterThan(
+        restingHeight + 0.5
+      );
+    });
+  });
+
+  describe("triggers", () => {
+    it("ignores level geometry inside a static trigger", () => {
+      const physics = new HeadlessPhysics();
+      // Floor and a static trigger volume sunk into it
+      physics.addBody(1, {
+        type: PhysicsShapeType.BOX,
+        size: [20, 1, 20],
+        mass: 0,
+        position: [0, -0.5, 0],
+      });
+      physics.addBody(2, {
+        type: PhysicsShapeType.BOX,
+        size: [4, 4, 4],
+        mass: 0,
+        position: [0, 0, 0],
+        isTrigger: true,
+      });
+      physics.addBody(3, box([0, 4, 0]));
+      physics.step(60);
+
+      const events = physics
+        .take(PhysicsWorkerMessageType.TRIGGERS)
+        .flatMap((message) => message.events);
+      expect(events).toEqual([
+        { type: PhysicsTriggerEventType.ENTER, triggerId: 2, otherId: 3 },
+      ]);
+    });
+  });
+
+  describe("water", () => {
+    it("floats bodies on a heightfield surface", () => {
+      const physics = new HeadlessPhysics();
+      // Raised two metres above the level everywhere near the body
+      physics.send({
+        type: PhysicsWorkerMessageType.ADD_WATER,
+        id: 1,
+        options: {
+          level: 0,
+          heightfield: {
+            heights: new Float32Array([2, 2, 2, 2]),
+            columns: 2,
+            rows: 2,
+            origin: [-5, -5],
+            spacing: 10,
+          },
+        },
+      });
+      physics.addBody(1, { ...box([0, 1, 0]), mass: 100 });
+      physics.step(120);
+
+      // Half the density of water floats half out of the raised surface
+      expect(physics.getPose(1)!.position[1]).toBeGreaterThan(1.5);
+      expect(physics.take(PhysicsWorkerMessageType.WATER_EVENTS)).not.toEqual(
+        []
+      );
+    });
+
+    it("lets sunken bodies rest on the bed without bobbing", () => {
+      const physics = new HeadlessPhysics();
+      physics.send({
+        type: PhysicsWorkerMessageType.ADD_WATER,
+        id: 1,
+        options: { level: 5 },
+      });
+      physics.addBody(1, {
+        type: PhysicsShapeType.BOX,
+        size: [20, 1, 20],
+        mass: 0,
+        position: [0, -0.5, 0],
+      });
+      // Denser than water, so it sinks and rests on the floor
+      physics.addBody(2, { ...box([0, 0.5, 0]), mass: 1500 });
+
+      for (let i = 0; i < 30; i++) {
+        physics.step();
+        expect(physics.getPose(2)!.position[1]).toBeCloseTo(0.5, 3);
+      }
+    });
+
+    it("reports bodies leaving when the water is removed", () => {
+      const physics = new HeadlessPhysics();
+      physics.send({
+        type: PhysicsWorkerMessageType.ADD_WATER,
+        id: 1,
+        options: { level: 5 },
+      });
+      physics.addBody(1, { ...box([0, 0, 0]), mass: 100 });
+      physics.step();
+      physics.take(PhysicsWorkerMessageType.WATER_EVENTS);
+
+      physics.send({ type: PhysicsWorkerMessageType.REMOVE_WATER, id: 1 });
+      physics.step();
+
+      const [message] = physics.take(PhysicsWorkerMessageType.WATER_EVENTS);
+      expect(message.events).toEqual([
+        expect.objectContaining({
+          type: PhysicsWaterEventType.EXIT,
+          waterId: 1,
+          bodyId: 1,
+        }),
+      ]);
+    });
+  });
+
+  describe("shapes", () => {
+    it("splits trimeshes past Cannon's 16-bit index limit", () => {
+      // A flat grid of 201 x 201 vertices, more than an Int16Array can index
+      const size = 201;
+      const vertices = new Float32Array(size * size * 3);
+      for (let z = 0; z < size; z++) {
+        for (let x = 0; x < size; x++) {
+          vertices.set([x, 0, z], (z * size + x) * 3);
+        }
+      }
+      const indices: number[] = [];
+      for (let z = 0; z < size - 1; z++) {
+        for (let x = 0; x < size - 1; x++) {
+          const i = z * size + x;
+          indices.push(i, i + size, i + 1, i + 1, i + size, i + size + 1);
+        }
+      }
+
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, {
+        type: PhysicsShapeType.TRIMESH,
+        vertices,
+        indices: new Uint32Array(indices),
+        mass: 0,
+        position: [0, 0, 0],
+      });
+      physics.send({
+        type: PhysicsWorkerMessageType.RAYCAST,
+        mode: PhysicsRaycastMode.CLOSEST,
+        from: [199.5, 10, 199.5],
+        to: [199.5, -10, 199.5],
+        requestId: "far-corner",
+      });
+
+      const [result] = physics.take(PhysicsWorkerMessageType.RAYCAST);
+      expect(result.hits).toHaveLength(1);
+      expect(result.hits[0].point[1]).toBeCloseTo(0);
+    });
+  });
+
+  describe("queries", () => {
+    it("sphere casts hit small shapes inside the sphere's path", () => {
+      const physics = new HeadlessPhysics({ gravity: [0, 0, 0] });
+      // A pebble off the cast's axis, but well within its radius
+      physics.addBody(1, {
+        type: PhysicsShapeType.BOX,
+        size: [0.05, 0.05, 0.05],
+        mass: 0,
+        position: [0.35, 0, 0.35],
+      });
+      physics.send({
+        type: PhysicsWorkerMessageType.SPHERE_CAST,
+        from: [0, 5, 0],
+        to: [0, -5, 0],
+        radius: 1,
+        requestId: "pebble",
+      });
+
+      const [result] = physics.take(PhysicsWorkerMessageType.SPHERE_CAST);
+      expect(result.hits).toHaveLength(1);
+      expect(result.hits[0].bodyId).toBe(1);
+      // The sphere touches the pebble's nearest top corner
+      const corner = Math.hypot(0.325, 0.325);
+      const centerHeight = 0.025 + Math.sqrt(1 - corner * corner);
+      expect(result.hits[0].distance).toBeCloseTo(5 - centerHeight, 2);
+      expect(result.hits[0].point[1]).toBeCloseTo(0.025, 2);
+    });
+
+    it("sphere casts only march where they cross a body's bounds", () => {
+      const physics = new HeadlessPhysics({ gravity: [0, 0, 0] });
+      physics.addBody(1, {
+        type: PhysicsShapeType.BOX,
+        size: [1000, 1, 1000],
+        mass: 0,
+        position: [0, -0.5, 0],
+      });
+      const getContacts = vi.spyOn(CANNON.Narrowphase.prototype, "getContacts");
+
+      // A long, thin cast down onto the floor from far away
+      physics.send({
+        type: PhysicsWorkerMessageType.SPHERE_CAST,
+        from: [-400, 3, 0],
+        to: [400, -3, 0],
+        radius: 0.1,
+        requestId: "floor",
+      });
+
+      const [result] = physics.take(PhysicsWorkerMessageType.SPHERE_CAST);
+      expect(result.hits[0].bodyId).toBe(1);
+      // The centre is a radius above the floor when it touches
+      expect(result.hits[0].distance).toBeCloseTo(
+        (2.9 / 6) * Math.hypot(800, 6),
+        1
+      );
+      expect(getContacts.mock.calls.length).toBeLessThan(300);
+      getContacts.mockRestore();
+    });
+  });
+
+  describe("vehicles", () => {
+    // A car resting on a wide floor, with a wheel near each corner
+    const addCar = (physics: HeadlessPhysics) => {
+      physics.addBody(1, {
+        type: PhysicsShapeType.BOX,
+        size: [50, 1, 50],
+        mass: 0,
+        position: [0, -0.5, 0],
+      });
+      physics.send({
+        type: PhysicsWorkerMessageType.ADD_VEHICLE,
+        id: 2,
+        options: {
+          chassis: {
+            type: PhysicsShapeType.BOX,
+            size: [2, 0.5, 4],
+            mass: 150,
+            position: [0, 1.5, 0],
+          },
+          wheels: [
+            { position: [-1, 0, 1.5], isFrontWheel: true },
+            { position: [1, 0, 1.5], isFrontWheel: true },
+            { position: [-1, 0, -1.5] },
+            { position: [1, 0, -1.5] },
+          ],
+        },
+      });
+    };
+
+    it("rests its wheels on flat ground", () => {
+      const physics = new HeadlessPhysics();
+      addCar(physics);
+      physics.step(180);
+
+      const wheels = physics.latestSync()!.wheels!;
+      expect(wheels.count).toBe(4);
+      for (let i = 0; i < wheels.count; i++) {
+        expect(wheels.vehicleIds[i]).toBe(2);
+        // The wheel's centre sits a radius above the ground
+        expect(wheels.positions[i * 3 + 1]).toBeCloseTo(0.4, 1);
+      }
+    });
+
+    it("drives forward under engine force", () => {
+      const physics = new HeadlessPhysics();
+      addCar(physics);
+      physics.step(60);
+      const start = physics.getPose(2)!.position;
+
+      physics.send({
+        type: PhysicsWorkerMessageType.SET_VEHICLE_INPUT,
+        id: 2,
+        input: { engineForce: 500 },
+      });
+      physics.step(120);
+
+      const end = physics.getPose(2)!.position;
+      expect(Math.abs(end[2] - start[2])).toBeGreaterThan(1);
+      expect(Math.abs(end[0] - start[0])).toBeLessThan(0.1);
+    });
+  });
+
+  describe("snapshots", () => {
+    const takeSnapshot = (physics: HeadlessPhysics) => {
+      physics.send({
+        type: PhysicsWorkerMessageType.SNAPSHOT,
+        requestId: "snapshot",
+      });
+      return physics.take(PhysicsWorkerMessageType.SNAPSHOT)[0].snapshot;
+    };
+
+    it("restores bodies to where they were", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, box([0, 5, 0]));
+      const snapshot = takeSnapshot(physics);
+      physics.step(30);
+
+      physics.send({
+        type: PhysicsWorkerMessageType.RESTORE,
+        snapshot,
+        requestId: "restore",
+      });
+      expect(physics.take(PhysicsWorkerMessageType.RESTORE)).toEqual([
+        { type: PhysicsWorkerMessageType.RESTORE, requestId: "restore" },
+      ]);
+      expect(physics.getBodyProperties(1)!.position).toEqual([0, 5, 0]);
+    });
+
+    it("refuses to restore over different bodies", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, box([0, 5, 0]));
+      const snapshot = takeSnapshot(physics);
+      physics.addBody(2, box([3, 5, 0]));
+
+      physics.send({
+        type: PhysicsWorkerMessageType.RESTORE,
+        snapshot,
+        requestId: "restore",
+      });
+
+      const [result] = physics.take(PhysicsWorkerMessageType.RESTORE);
+      expect(result.error).toMatch(/different bodies/);
+      expect(physics.getBodyProperties(2)).toBeDefined();
+    });
+  });
+
+  describe("body properties", () => {
+    it("reports mass, pose and velocity", () => {
+      const physics = new HeadlessPhysics({ gravity: [0, 0, 0] });
+      physics.addBody(7, { ...box([1, 2, 3]), mass: 5 });
+      physics.send({
+        type: PhysicsWorkerMessageType.SET_VELOCITY,
+        id: 7,
+        velocity: [0, 0, -1],
+      });
+
+      const props = physics.getBodyProperties(7)!;
+      expect(props.mass).toBe(5);
+      expect(props.position).toEqual([1, 2, 3]);
+      expect(props.quaternion).toEqual([0, 0, 0, 1]);
+      expect(props.velocity).toEqual([0, 0, -1]);
+    });
+
+    it("reflects teleports immediately", () => {
+      const physics = new HeadlessPhysics();
+      physics.addBody(1, box([0, 5, 0]));
+      physics.send({
+        type: PhysicsWorkerMessageType.SET_POSITION,
+        id: 1,
+        position: [10, 20, 30],
+      });
+
+      expect(physics.getBodyProperties(1)!.position).toEqual([10, 20, 30]);
+    });
+  });
+});
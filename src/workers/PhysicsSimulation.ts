@@ -0,0 +1,2170 @@
+import * as CANNON from "cannon-es";
+import { CharacterMotor } from "./CharacterMotor";
+import { applyExplosion, applyForceField } from "./forceFields";
+import { WaterVolume } from "./WaterVolume";
+import { SharedTransforms } from "../physics/SharedTransforms";
+import {
+  PhysicsWorldState,
+  assertSameTopology,
+  decodeWorldState,
+  encodeWorldState,
+} from "../physics/snapshot";
+import {
+  PhysicsBodyType,
+  PhysicsCharacterOptions,
+  PhysicsCharacterState,
+  PhysicsCollisionEvent,
+  PhysicsCollisionEventType,
+  PhysicsCompoundChildOptions,
+  PhysicsConstraintOptions,
+  PhysicsConstraintType,
+  PhysicsContactMaterialOptions,
+  PhysicsDebugBodyShapes,
+  PhysicsForceFieldOptions,
+  PhysicsHingeMotorOptions,
+  PhysicsMaterialOptions,
+  PhysicsObjectOptions,
+  PhysicsRaycastHit,
+  PhysicsRaycastMode,
+  PhysicsRaycastOptions,
+  PhysicsShapeOptions,
+  PhysicsShapeType,
+  PhysicsSnapshot,
+  PhysicsTriggerEvent,
+  PhysicsTriggerEventType,
+  PhysicsVehicleInput,
+  PhysicsVehicleOptions,
+  PhysicsWaterEvent,
+  PhysicsWaterOptions,
+  PhysicsWorkerSyncMessage,
+  PhysicsWorkerIncomingMessage,
+  PhysicsWorkerMessageType,
+  PhysicsWorkerOutgoingMessage,
+} from "../physics/types";
+
+// Store bodies with their IDs for lookups
+type BodyMap = Map<number, CANNON.Body>;
+
+// Cannon body type for each body type option
+const BODY_TYPES: Record<PhysicsBodyType, CANNON.BodyType> = {
+  [PhysicsBodyType.DYNAMIC]: CANNON.Body.DYNAMIC,
+  [PhysicsBodyType.STATIC]: CANNON.Body.STATIC,
+  [PhysicsBodyType.KINEMATIC]: CANNON.Body.KINEMATIC,
+};
+
+// Contact data gathered for a pair of bodies during a step
+type ContactInfo = Omit<PhysicsCollisionEvent, "type">;
+
+// Cannon stores trimesh indices and edges in an Int16Array
+const MAX_TRIMESH_VERTICES = 32767;
+
+// Most steps a sphere cast takes across one body's bounds; longer sweeps
+// through large bounds step more coarsely
+const MAX_SPHERE_CAST_STEPS = 256;
+
+// Split a triangle mesh into pieces small enough for a Cannon trimesh,
+// each with its own compacted vertex list
+function splitTrimesh(
+  vertices: Float32Array,
+  indices: Uint32Array
+): { vertices: number[]; indices: number[] }[] {
+  const vertexCount = vertices.length / 3;
+  if (vertexCount <= MAX_TRIMESH_VERTICES) {
+    return [{ vertices: Array.from(vertices), indices: Array.from(indices) }];
+  }
+
+  const pieces: { vertices: number[]; indices: number[] }[] = [];
+  let piece = { vertices: [] as number[], indices: [] as number[] };
+  let remap: Map<number, number> = new Map();
+
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const triangle = [indices[i], indices[i + 1], indices[i + 2]];
+    const added = triangle.filter((index) => !remap.has(index)).length;
+
+    // Start a new piece when this triangle's new vertices wouldn't fit
+    if (remap.size + added > MAX_TRIMESH_VERTICES) {
+      pieces.push(piece);
+      piece = { vertices: [], indices: [] };
+      remap = new Map();
+    }
+
+    for (const index of triangle) {
+      let local = remap.get(index);
+      if (local === undefined) {
+        local = remap.size;
+        remap.set(index, local);
+        piece.vertices.push(
+          vertices[index * 3],
+          vertices[index * 3 + 1],
+          vertices[index * 3 + 2]
+        );
+      }
+      piece.indices.push(local);
+    }
+  }
+  if (piece.indices.length > 0) pieces.push(piece);
+
+  return pieces;
+}
+
+// Delivers messages from the simulation to the main thread (or a test)
+export type PhysicsMessageSink = (
+  message: PhysicsWorkerOutgoingMessage,
+  transfer?: Transferable[]
+) => void;
+
+/**
+ * The physics simulation behind the worker protocol
+ * It only talks through messages, so the same code runs in a web worker or
+ * in-process (see HeadlessPhysics)
+ */
+export class PhysicsSimulation {
+  private world!: CANNON.World; // Use definite assignment assertion
+  private bodies: BodyMap = new Map();
+  private bodyIds: Map<CANNON.Body, number> = new Map();
+  private beganContacts: [CANNON.Body, CANNON.Body][] = [];
+  private endedContacts: [CANNON.Body, CANNON.Body][] = [];
+  private lastContacts: Map<string, ContactInfo> = new Map();
+  private collisionEvents: PhysicsCollisionEvent[] = [];
+  private triggerEvents: PhysicsTriggerEvent[] = [];
+  private constraints: Map<number, CANNON.Constraint> = new Map();
+  private springs: Map<number, CANNON.Spring> = new Map();
+  private forceFields: Map<number, PhysicsForceFieldOptions> = new Map();
+  private waters: Map<number, WaterVolume> = new Map();
+  private waterEvents: PhysicsWaterEvent[] = [];
+  private materials: Map<string, CANNON.Material> = new Map();
+  private rewindBuffer: ArrayBuffer[] = [];
+  private rewindSize = 0;
+  private rewindHead = 0; // Slot the next recorded state goes into
+  private rewindCount = 0;
+  private debugEnabled = false;
+  private characters: Map<number, CharacterMotor> = new Map();
+  private vehicles: Map<number, CANNON.RaycastVehicle> = new Map();
+  // Static triggers simulated as kinematic bodies (see addBody)
+  private staticTriggers: Set<CANNON.Body> = new Set();
+  private ids: Uint32Array = new Uint32Array(0);
+  private positions: Float32Array = new Float32Array(0);
+  private quaternions: Float32Array = new Float32Array(0);
+  // Transforms one step before the latest, so the main thread interpolates
+  // across a single step however many ran since the last sync
+  private previousPositions: Float32Array = new Float32Array(0);
+  private previousQuaternions: Float32Array = new Float32Array(0);
+  private previousWheels?: PhysicsWorkerSyncMessage["wheels"];
+  private useSharedTransforms = false;
+  private sharedTransforms: SharedTransforms | null = null;
+  // Latest sequence number from the main thread, stamped on every sync
+  private sequence = 0;
+
+  constructor(private post: PhysicsMessageSink) {}
+
+  // Initialize the physics world
+  private init(
+    gravity: [number, number, number],
+    iterations = 10,
+    sharedTransforms = false
+  ): void {
+    this.useSharedTransforms = sharedTransforms;
+
+    this.world = new CANNON.World({
+      gravity: new CANNON.Vec3(...gravity),
+    });
+
+    // Set iteration property in a type-safe way
+    (this.world.solver as any).iterations = iterations;
+    this.world.broadphase = new CANNON.NaiveBroadphase();
+    this.world.allowSleep = true;
+
+    // Contact events fire mid-step, before the solver runs, so only record
+    // the pairs here and resolve contact data once the step is complete
+    this.world.addEventListener("beginContact", (event: any) => {
+      if (event.bodyA && event.bodyB) {
+        this.beganContacts.push([event.bodyA, event.bodyB]);
+      }
+    });
+    this.world.addEventListener("endContact", (event: any) => {
+      if (event.bodyA && event.bodyB) {
+        this.endedContacts.push([event.bodyA, event.bodyB]);
+      }
+    });
+  }
+
+  // Create a physics body based on shape type
+  private createBody(id: number, options: PhysicsObjectOptions): void {
+    // Use a registered material, or create a one-off material if specified
+    let material: CANNON.Material | undefined;
+    if (typeof options.material === "string") {
+      if (!this.materials.has(options.material)) {
+        console.warn(`Material ${options.material} is not registered`);
+      }
+      material = this.getMaterial(options.material);
+    } else if (options.material) {
+      material = new CANNON.Material();
+      material.friction = options.material.friction;
+      material.restitution = options.material.restitution;
+    }
+
+    // Create the body
+    const body = new CANNON.Body({
+      mass: options.mass,
+      type: options.bodyType ? BODY_TYPES[options.bodyType] : undefined,
+      position: new CANNON.Vec3(...options.position),
+      material: material,
+      linearDamping: options.linearDamping ?? 0.01,
+      angularDamping: options.angularDamping ?? 0.01,
+      fixedRotation: options.fixedRotation ?? false,
+      collisionFilterGroup: options.collisionFilterGroup ?? 1,
+      collisionFilterMask: options.collisionFilterMask ?? -1,
+      // Triggers still generate contacts but never respond to them, and
+      // raycasts skip them by default
+      isTrigger: options.isTrigger ?? false,
+      collisionResponse: !options.isTrigger,
+    });
+
+    // The broadphase skips static-vs-sleeping pairs, which would report an
+    // exit as soon as a body comes to rest inside a static trigger; keep
+    // such triggers kinematic and awake instead. That pairs them with static
+    // bodies too, so their overlaps with the level are filtered out later
+    if (options.isTrigger && options.mass === 0 && !options.bodyType) {
+      body.type = CANNON.Body.KINEMATIC;
+      body.allowSleep = false;
+      this.staticTriggers.add(body);
+    }
+
+    // Add the shapes to the body
+    this.addShape(body, options);
+
+    // Set quaternion if specified
+    if (options.quaternion) {
+      body.quaternion.set(
+        options.quaternion[0],
+        options.quaternion[1],
+        options.quaternion[2],
+        options.quaternion[3]
+      );
+    }
+
+    // Add the body to the world and store it in our map
+    this.world.addBody(body);
+    this.bodies.set(id, body);
+    this.bodyIds.set(body, id);
+    this.clearRewindStates();
+
+    // Resize our data arrays if needed
+    this.resizeArrays();
+
+    if (this.debugEnabled) this.sendDebugShapes([id]);
+  }
+
+  // Create a capsule body driven by a character motor
+  private addCharacter(id: number, options: PhysicsCharacterOptions): void {
+    this.createBody(id, {
+      type: PhysicsShapeType.CAPSULE,
+      radius: options.radius ?? 0.4,
+      height: options.height ?? 1.8,
+      mass: options.mass ?? 70,
+      position: options.position,
+      // Frictionless so walls don't hold the character up, upright always
+      material: { friction: 0, restitution: 0 },
+      fixedRotation: true,
+      linearDamping: 0,
+      angularDamping: 0,
+      collisionFilterGroup: options.collisionFilterGroup,
+      collisionFilterMask: options.collisionFilterMask,
+    });
+
+    const body = this.bodies.get(id)!;
+    body.allowSleep = false;
+    this.characters.set(id, new CharacterMotor(this.world, body, options));
+  }
+
+  // Update the input of a character
+  private setCharacterInput(
+    id: number,
+    move: [number, number, number],
+    jump: boolean
+  ): void {
+    this.characters.get(id)?.setInput(move, jump);
+  }
+
+  // Send grounded state and velocity of every character
+  private sendCharacterStates(): void {
+    if (this.characters.size === 0) return;
+
+    const states: PhysicsCharacterState[] = [];
+    this.characters.forEach((character, id) => {
+      const { body, groundNormal, groundBody } = character;
+      states.push({
+        id,
+        grounded: character.grounded,
+        groundNormal: [groundNormal.x, groundNormal.y, groundNormal.z],
+        groundBodyId: groundBody ? this.bodyIds.get(groundBody) : undefined,
+        velocity: [body.velocity.x, body.velocity.y, body.velocity.z],
+      });
+    });
+
+    this.post({
+      type: PhysicsWorkerMessageType.CHARACTERS,
+      states,
+    });
+  }
+
+  // Create a water volume, or update an existing one in place so bodies
+  // already floating in it don't report a fresh entry
+  private addWater(id: number, options: PhysicsWaterOptions): void {
+    const water = this.waters.get(id);
+    if (water) {
+      water.options = options;
+    } else {
+      this.waters.set(id, new WaterVolume(id, options));
+    }
+  }
+
+  // Create a chassis body with raycast wheels
+  private addVehicle(id: number, options: PhysicsVehicleOptions): void {
+    this.createBody(id, options.chassis);
+    const chassisBody = this.bodies.get(id)!;
+
+    // Chassis faces +Z, with +X to the right and +Y up
+    const vehicle = new CANNON.RaycastVehicle({
+      chassisBody,
+      indexRightAxis: 0,
+      indexUpAxis: 1,
+      indexForwardAxis: 2,
+    });
+
+    for (const wheel of options.wheels) {
+      vehicle.addWheel({
+        chassisConnectionPointLocal: new CANNON.Vec3(...wheel.position),
+        directionLocal: new CANNON.Vec3(...(wheel.direction ?? [0, -1, 0])),
+        axleLocal: new CANNON.Vec3(...(wheel.axle ?? [-1, 0, 0])),
+        radius: wheel.radius ?? 0.4,
+        isFrontWheel: wheel.isFrontWheel ?? false,
+        suspensionRestLength: wheel.suspensionRestLength ?? 0.3,
+        suspensionMaxLength: wheel.suspensionMaxLength ?? 2,
+        suspensionStiffness: wheel.suspensionStiffness ?? 30,
+        maxSuspensionForce: wheel.maxSuspensionForce ?? 100000,
+        maxSuspensionTravel: wheel.maxSuspensionTravel ?? 0.3,
+        dampingCompression: wheel.dampingCompression ?? 4.4,
+        dampingRelaxation: wheel.dampingRelaxation ?? 2.3,
+        frictionSlip: wheel.frictionSlip ?? 1.4,
+        rollInfluence: wheel.rollInfluence ?? 0.01,
+      });
+    }
+
+    // Wheels stop responding to input once the chassis falls asleep
+    chassisBody.allowSleep = false;
+    vehicle.addToWorld(this.world);
+    this.vehicles.set(id, vehicle);
+  }
+
+  // Apply steering, engine force and brakes to a vehicle's wheels
+  private setVehicleInput(id: number, input: PhysicsVehicleInput): void {
+    const vehicle = this.vehicles.get(id);
+    if (!vehicle) return;
+
+    // Resolve a scalar to the wheels it applies to, or take per-wheel values
+    const valueFor = (
+      value: number | number[] | undefined,
+      index: number,
+      appliesTo: boolean
+    ): number | undefined => {
+      if (Array.isArray(value)) return value[index];
+      if (value === undefined) return undefined;
+      return appliesTo ? value : 0;
+    };
+
+    vehicle.wheelInfos.forEach((wheel, index) => {
+      const steering = valueFor(input.steering, index, wheel.isFrontWheel);
+      const engineForce = valueFor(
+        input.engineForce,
+        index,
+        !wheel.isFrontWheel
+      );
+      const brake = valueFor(input.brake, index, true);
+
+      if (steering !== undefined) vehicle.setSteeringValue(steering, index);
+      if (engineForce !== undefined) {
+        vehicle.applyEngineForce(engineForce, index);
+      }
+      if (brake !== undefined) vehicle.setBrake(brake, index);
+    });
+  }
+
+  // Get a named material, creating it with default properties if needed
+  private getMaterial(name: string): CANNON.Material {
+    let material = this.materials.get(name);
+    if (!material) {
+      material = new CANNON.Material(name);
+      this.materials.set(name, material);
+    }
+    return material;
+  }
+
+  // Register or update a named material
+  private addMaterial(name: string, options: PhysicsMaterialOptions): void {
+    const material = this.getMaterial(name);
+    material.friction = options.friction;
+    material.restitution = options.restitution;
+  }
+
+  // Register or update how two named materials interact
+  private addContactMaterial(
+    materialA: string,
+    materialB: string,
+    options: PhysicsContactMaterialOptions
+  ): void {
+    const m1 = this.getMaterial(materialA);
+    const m2 = this.getMaterial(materialB);
+
+    // Cannon only fills in missing keys, so explicit undefineds become NaN
+    const keys = (
+      Object.keys(options) as (keyof PhysicsContactMaterialOptions)[]
+    ).filter((key) => options[key] !== undefined);
+    const defined: PhysicsContactMaterialOptions = {};
+    keys.forEach((key) => (defined[key] = options[key]));
+
+    // Update in place so the world never holds two entries for one pair
+    const existing = this.world.getContactMaterial(m1, m2);
+    if (existing) {
+      // Every option is a number property of the contact material
+      const target: Required<PhysicsContactMaterialOptions> = existing;
+      keys.forEach((key) => (target[key] = options[key]!));
+      return;
+    }
+
+    this.world.addContactMaterial(new CANNON.ContactMaterial(m1, m2, defined));
+  }
+
+  // Add the shape(s) described by the options to a body
+  private addShape(
+    body: CANNON.Body,
+    options: PhysicsShapeOptions,
+    offset: CANNON.Vec3 = new CANNON.Vec3(),
+    orientation: CANNON.Quaternion = new CANNON.Quaternion()
+  ): void {
+    switch (options.type) {
+      case PhysicsShapeType.BOX:
+        if (!options.size) throw new Error("Box shape requires size");
+        body.addShape(
+          new CANNON.Box(
+            new CANNON.Vec3(
+              options.size[0] / 2,
+              options.size[1] / 2,
+              options.size[2] / 2
+            )
+          ),
+          offset,
+          orientation
+        );
+        break;
+      case PhysicsShapeType.SPHERE:
+        if (!options.radius) throw new Error("Sphere shape requires radius");
+        body.addShape(new CANNON.Sphere(options.radius), offset, orientation);
+        break;
+      case PhysicsShapeType.PLANE:
+        body.addShape(new CANNON.Plane(), offset, orientation);
+        break;
+      case PhysicsShapeType.CYLINDER: {
+        const radiusTop = options.radiusTop ?? options.radius;
+        const radiusBottom = options.radiusBottom ?? options.radius;
+        if (radiusTop === undefined || radiusBottom === undefined) {
+          throw new Error("Cylinder shape requires radius");
+        }
+        if (!options.height) throw new Error("Cylinder shape requires height");
+        body.addShape(
+          new CANNON.Cylinder(
+            radiusTop,
+            radiusBottom,
+            options.height,
+            options.segments ?? 12
+          ),
+          offset,
+          orientation
+        );
+        break;
+      }
+      case PhysicsShapeType.CAPSULE: {
+        if (!options.radius) throw new Error("Capsule shape requires radius");
+        if (!options.height) throw new Error("Capsule shape requires height");
+
+        // A cylinder capped by two spheres, all aligned along local Y
+        const radius = options.radius;
+        const length = Math.max(options.height - radius * 2, 0);
+        if (length > 0) {
+          body.addShape(
+            new CANNON.Cylinder(radius, radius, length, options.segments ?? 12),
+            offset,
+            orientation
+          );
+        }
+        for (const side of [1, -1]) {
+          const capOffset = orientation
+            .vmult(new CANNON.Vec3(0, (side * length) / 2, 0))
+            .vadd(offset);
+          body.addShape(new CANNON.Sphere(radius), capOffset, orientation);
+        }
+        break;
+      }
+      case PhysicsShapeType.CONVEX: {
+        if (!options.vertices || !options.indices) {
+          throw new Error("Convex shape requires vertices and indices");
+        }
+        const vertices: CANNON.Vec3[] = [];
+        for (let i = 0; i < options.vertices.length; i += 3) {
+          vertices.push(
+            new CANNON.Vec3(
+              options.vertices[i],
+              options.vertices[i + 1],
+              options.vertices[i + 2]
+            )
+          );
+        }
+        const faces: number[][] = [];
+        for (let i = 0; i < options.indices.length; i += 3) {
+          faces.push([
+            options.indices[i],
+            options.indices[i + 1],
+            options.indices[i + 2],
+          ]);
+        }
+        body.addShape(
+          new CANNON.ConvexPolyhedron({ vertices, faces }),
+          offset,
+          orientation
+        );
+        break;
+      }
+      case PhysicsShapeType.TRIMESH:
+        if (!options.vertices || !options.indices) {
+          throw new Error("Trimesh shape requires vertices and indices");
+        }
+        // Large meshes become several trimeshes sharing the same placement
+        for (const piece of splitTrimesh(options.vertices, options.indices)) {
+          body.addShape(
+            new CANNON.Trimesh(piece.vertices, piece.indices),
+            offset,
+            orientation
+          );
+        }
+        break;
+      case PhysicsShapeType.HEIGHTFIELD: {
+        if (!options.heights || !options.rows || !options.columns) {
+          throw new Error(
+            "Heightfield shape requires heights, rows and columns"
+          );
+        }
+        const data: number[][] = [];
+        for (let row = 0; row < options.rows; row++) {
+          data.push(
+            Array.from(
+              options.heights.subarray(
+                row * options.columns,
+                (row + 1) * options.columns
+              )
+            )
+          );
+        }
+
+        // Cannon heightfields are Z-up; rotate so heights point along +Y
+        const zUpToYUp = new CANNON.Quaternion().setFromEuler(
+          -Math.PI / 2,
+          0,
+          0
+        );
+        body.addShape(
+          new CANNON.Heightfield(data, {
+            elementSize: options.elementSize ?? 1,
+          }),
+          offset,
+          orientation.mult(zUpToYUp)
+        );
+        break;
+      }
+      case PhysicsShapeType.COMPOUND:
+        if (!options.shapes || options.shapes.length === 0) {
+          throw new Error("Compound shape requires child shapes");
+        }
+        for (const child of options.shapes) {
+          // Compose the child's placement with the parent's
+          const childOffset = orientation
+            .vmult(new CANNON.Vec3(...(child.offset ?? [0, 0, 0])))
+            .vadd(offset);
+          const childOrientation = orientation.mult(
+            new CANNON.Quaternion(...(child.quaternion ?? [0, 0, 0, 1]))
+          );
+          this.addShape(body, child, childOffset, childOrientation);
+        }
+        break;
+      default:
+        throw new Error(`Unsupported shape type: ${options.type}`);
+    }
+  }
+
+  // Remove a body from the physics world
+  private removeBody(id: number): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      this.characters.delete(id);
+      this.waters.forEach((water) => water.forget(body));
+
+      const vehicle = this.vehicles.get(id);
+      if (vehicle) {
+        vehicle.removeFromWorld(this.world);
+        this.vehicles.delete(id);
+      }
+
+      // Constraints cannot outlive either of their bodies
+      this.constraints.forEach((constraint, constraintId) => {
+        if (constraint.bodyA === body || constraint.bodyB === body) {
+          this.removeConstraint(constraintId);
+        }
+      });
+      this.springs.forEach((spring, constraintId) => {
+        if (spring.bodyA === body || spring.bodyB === body) {
+          this.removeConstraint(constraintId);
+        }
+      });
+
+      this.world.removeBody(body);
+      this.bodies.delete(id);
+      this.bodyIds.delete(body);
+      this.staticTriggers.delete(body);
+      this.clearRewindStates();
+    }
+  }
+
+  // Create a constraint or spring between two bodies
+  private addConstraint(id: number, options: PhysicsConstraintOptions): void {
+    const bodyA = this.bodies.get(options.bodyA);
+    const bodyB = this.bodies.get(options.bodyB);
+    if (!bodyA || !bodyB) {
+      console.warn(
+        `Constraint ${id} references missing body ${
+          bodyA ? options.bodyB : options.bodyA
+        }`
+      );
+      return;
+    }
+
+    const vec = (v?: [number, number, number]) =>
+      v ? new CANNON.Vec3(...v) : undefined;
+
+    let constraint: CANNON.Constraint;
+
+    switch (options.type) {
+      case PhysicsConstraintType.POINT_TO_POINT:
+        constraint = new CANNON.PointToPointConstraint(
+          bodyA,
+          vec(options.pivotA),
+          bodyB,
+          vec(options.pivotB),
+          options.maxForce
+        );
+        break;
+      case PhysicsConstraintType.HINGE:
+        constraint = new CANNON.HingeConstraint(bodyA, bodyB, {
+          pivotA: vec(options.pivotA),
+          pivotB: vec(options.pivotB),
+          axisA: vec(options.axisA),
+          axisB: vec(options.axisB),
+          maxForce: options.maxForce,
+        });
+        break;
+      case PhysicsConstraintType.LOCK:
+        constraint = new CANNON.LockConstraint(bodyA, bodyB, {
+          maxForce: options.maxForce,
+        });
+        break;
+      case PhysicsConstraintType.DISTANCE:
+        constraint = new CANNON.DistanceConstraint(
+          bodyA,
+          bodyB,
+          options.distance,
+          options.maxForce
+        );
+        break;
+      case PhysicsConstraintType.CONE_TWIST:
+        constraint = new CANNON.ConeTwistConstraint(bodyA, bodyB, {
+          pivotA: vec(options.pivotA),
+          pivotB: vec(options.pivotB),
+          axisA: vec(options.axisA),
+          axisB: vec(options.axisB),
+          angle: options.angle,
+          twistAngle: options.twistAngle,
+          maxForce: options.maxForce,
+        });
+        break;
+      case PhysicsConstraintType.SPRING:
+        // Springs are not solver constraints, they are applied each step
+        this.springs.set(
+          id,
+          new CANNON.Spring(bodyA, bodyB, {
+            localAnchorA: vec(options.pivotA),
+            localAnchorB: vec(options.pivotB),
+            restLength: options.restLength,
+            stiffness: options.stiffness,
+            damping: options.damping,
+          })
+        );
+        this.clearRewindStates();
+        return;
+      default:
+        throw new Error(`Unsupported constraint type: ${options.type}`);
+    }
+
+    constraint.collideConnected = options.collideConnected ?? true;
+    this.world.addConstraint(constraint);
+    this.constraints.set(id, constraint);
+    this.clearRewindStates();
+
+    if (options.motor) {
+      this.setHingeMotor(id, options.motor);
+    }
+  }
+
+  // Remove a constraint or spring
+  private removeConstraint(id: number): void {
+    const constraint = this.constraints.get(id);
+    if (constraint) {
+      this.world.removeConstraint(constraint);
+      this.constraints.delete(id);
+      this.clearRewindStates();
+    }
+    if (this.springs.delete(id)) this.clearRewindStates();
+  }
+
+  // Configure the motor of a hinge constraint
+  private setHingeMotor(id: number, motor: PhysicsHingeMotorOptions): void {
+    const constraint = this.constraints.get(id);
+    if (!(constraint instanceof CANNON.HingeConstraint)) {
+      console.warn(`Constraint ${id} is not a hinge`);
+      return;
+    }
+
+    if (motor.speed !== undefined) constraint.setMotorSpeed(motor.speed);
+    if (motor.maxForce !== undefined) {
+      constraint.setMotorMaxForce(motor.maxForce);
+    }
+
+    if (motor.enabled) {
+      constraint.enableMotor();
+    } else {
+      constraint.disableMotor();
+    }
+
+    // A sleeping body would ignore the motor until something wakes it
+    constraint.bodyA.wakeUp();
+    constraint.bodyB.wakeUp();
+  }
+
+  // Advance the physics world by a number of fixed steps
+  private update(dt: number, steps = 1): void {
+    for (let step = 0; step < steps; step++) {
+      // Remember the state before the step so it can be rewound
+      if (this.rewindSize > 0) this.recordRewindState();
+
+      // Let characters react to the world before it moves
+      this.characters.forEach((character) => character.update(dt));
+
+      // Cannon remembers each body's pose before a step, but wheel poses
+      // must be recorded here for the sync to interpolate from
+      if (step === steps - 1 && this.vehicles.size > 0) {
+        this.previousWheels = this.collectWheels();
+      }
+
+      // Forces go in before the step, so the solver sees them
+      this.applyForceGenerators(dt);
+
+      // Step the physics simulation
+      this.world.step(dt);
+
+      // Record contacts that began or ended during this step
+      this.gatherCollisions(dt);
+    }
+
+    // Report every contact change since the last update in one batch
+    this.sendContactEvents();
+    this.sendCharacterStates();
+
+    // Send the data back to the main thread
+    this.sync();
+
+    if (this.debugEnabled) this.sendDebugFrame();
+  }
+
+  // Add spring, force field and water forces for the coming step. Cannon
+  // fires preStep after the solver, so these can't be added there
+  private applyForceGenerators(dt: number): void {
+    this.springs.forEach((spring) => spring.applyForce());
+    this.forceFields.forEach((field) => {
+      applyForceField(this.bodies.values(), field, this.world.gravity);
+    });
+    this.waters.forEach((water) => {
+      water.apply(
+        this.bodies,
+        this.world.gravity,
+        this.world.time,
+        dt,
+        this.waterEvents
+      );
+    });
+  }
+
+  // Apply a force to a body
+  private applyForce(
+    id: number,
+    force: [number, number, number],
+    worldPoint?: [number, number, number]
+  ): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      const forceVec = new CANNON.Vec3(...force);
+      // Cannon takes the point relative to the center of mass
+      const relativePoint = worldPoint
+        ? new CANNON.Vec3(...worldPoint).vsub(body.position)
+        : new CANNON.Vec3();
+      body.applyForce(forceVec, relativePoint);
+    }
+  }
+
+  // Apply an impulse to a body
+  private applyImpulse(
+    id: number,
+    impulse: [number, number, number],
+    worldPoint?: [number, number, number]
+  ): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      const impulseVec = new CANNON.Vec3(...impulse);
+      // Cannon takes the point relative to the center of mass
+      const relativePoint = worldPoint
+        ? new CANNON.Vec3(...worldPoint).vsub(body.position)
+        : new CANNON.Vec3();
+      body.applyImpulse(impulseVec, relativePoint);
+    }
+  }
+
+  // Set position of a body
+  private setPosition(id: number, position: [number, number, number]): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      body.position.set(...position);
+      body.previousPosition.set(...position);
+      body.interpolatedPosition.set(...position);
+    }
+  }
+
+  // Set velocity of a body
+  private setVelocity(id: number, velocity: [number, number, number]): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      body.velocity.set(...velocity);
+    }
+  }
+
+  // Set rotation of a body
+  private setRotation(
+    id: number,
+    quaternion: [number, number, number, number]
+  ): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      body.quaternion.set(...quaternion);
+      body.previousQuaternion.set(...quaternion);
+      body.interpolatedQuaternion.set(...quaternion);
+    }
+  }
+
+  // Set angular velocity of a body
+  private setAngularVelocity(
+    id: number,
+    angularVelocity: [number, number, number]
+  ): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      body.angularVelocity.set(...angularVelocity);
+    }
+  }
+
+  // Set mass of a body, switching between static and dynamic as needed
+  private setMass(id: number, mass: number): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      body.mass = mass;
+      if (body.type !== CANNON.Body.KINEMATIC) {
+        body.type = mass > 0 ? CANNON.Body.DYNAMIC : CANNON.Body.STATIC;
+      }
+      if (body.type === CANNON.Body.STATIC) {
+        body.velocity.setZero();
+        body.angularVelocity.setZero();
+      }
+      body.updateMassProperties();
+      body.wakeUp();
+    }
+  }
+
+  // Switch a body between dynamic, static and kinematic, keeping its mass
+  private setBodyType(id: number, bodyType: PhysicsBodyType): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      body.type = BODY_TYPES[bodyType];
+      this.staticTriggers.delete(body);
+      if (body.type !== CANNON.Body.DYNAMIC) {
+        body.velocity.setZero();
+        body.angularVelocity.setZero();
+      }
+      body.updateMassProperties();
+      body.wakeUp();
+    }
+  }
+
+  // Apply a torque to a body
+  private applyTorque(id: number, torque: [number, number, number]): void {
+    const body = this.bodies.get(id);
+    if (body) {
+      body.applyTorque(new CANNON.Vec3(...torque));
+    }
+  }
+
+  // Wake a sleeping body
+  private wakeUp(id: number): void {
+    this.bodies.get(id)?.wakeUp();
+  }
+
+  // Put a body to sleep
+  private sleep(id: number): void {
+    this.bodies.get(id)?.sleep();
+  }
+
+  // Capture the dynamic state of every body and constraint
+  private captureState(): PhysicsWorldState {
+    const state: PhysicsWorldState = {
+      time: this.world.time,
+      step: this.world.stepnumber,
+      bodies: [],
+      constraints: [],
+    };
+
+    this.bodies.forEach((body, id) => {
+      state.bodies.push({
+        id,
+        position: [body.position.x, body.position.y, body.position.z],
+        quaternion: [
+          body.quaternion.x,
+          body.quaternion.y,
+          body.quaternion.z,
+          body.quaternion.w,
+        ],
+        velocity: [body.velocity.x, body.velocity.y, body.velocity.z],
+        angularVelocity: [
+          body.angularVelocity.x,
+          body.angularVelocity.y,
+          body.angularVelocity.z,
+        ],
+        sleepState: body.sleepState,
+        timeLastSleepy: body.timeLastSleepy,
+      });
+    });
+
+    this.constraints.forEach((constraint, id) => {
+      const motor =
+        constraint instanceof CANNON.HingeConstraint
+          ? constraint.motorEquation
+          : undefined;
+      state.constraints.push({
+        id,
+        // Hinge motors toggle their own equation, so check the first one
+        enabled: constraint.equations[0]?.enabled ?? true,
+        motorEnabled: motor?.enabled ?? false,
+        motorSpeed: motor?.targetVelocity ?? 0,
+      });
+    });
+
+    // Springs have no state of their own, but restores check they match
+    this.springs.forEach((_, id) => {
+      state.constraints.push({
+        id,
+        enabled: true,
+        motorEnabled: false,
+        motorSpeed: 0,
+      });
+    });
+
+    return state;
+  }
+
+  // Apply captured state to the same bodies and constraints it came from
+  // Character motors and water volumes are not captured; they re-evaluate
+  // grounding and submersion on the next step
+  private applyState(state: PhysicsWorldState): void {
+    // Restoring never creates or removes bodies, so refuse a mismatch
+    // rather than leave the world half restored
+    assertSameTopology(state, this.bodies.keys(), [
+      ...this.constraints.keys(),
+      ...this.springs.keys(),
+    ]);
+
+    this.world.time = state.time;
+    this.world.stepnumber = state.step;
+
+    for (const bodyState of state.bodies) {
+      const body = this.bodies.get(bodyState.id)!;
+
+      body.position.set(...bodyState.position);
+      body.previousPosition.set(...bodyState.position);
+      body.interpolatedPosition.set(...bodyState.position);
+      body.quaternion.set(...bodyState.quaternion);
+      body.previousQuaternion.set(...bodyState.quaternion);
+      body.interpolatedQuaternion.set(...bodyState.quaternion);
+      body.velocity.set(...bodyState.velocity);
+      body.angularVelocity.set(...bodyState.angularVelocity);
+      body.force.setZero();
+      body.torque.setZero();
+      body.sleepState = bodyState.sleepState as CANNON.BodySleepState;
+      body.timeLastSleepy = bodyState.timeLastSleepy;
+      body.aabbNeedsUpdate = true;
+    }
+
+    for (const constraintState of state.constraints) {
+      // Springs have nothing to restore
+      const constraint = this.constraints.get(constraintState.id);
+      if (!constraint) continue;
+
+      if (constraintState.enabled) {
+        constraint.enable();
+      } else {
+        constraint.disable();
+      }
+
+      if (constraint instanceof CANNON.HingeConstraint) {
+        // enable()/disable() above also toggled the motor equation
+        constraint.motorEquation.enabled = constraintState.motorEnabled;
+        constraint.motorEquation.targetVelocity = constraintState.motorSpeed;
+      }
+    }
+
+    // Contacts from the abandoned timeline are meaningless now
+    this.beganContacts = [];
+    this.endedContacts = [];
+    this.lastContacts.clear();
+
+    this.sync();
+  }
+
+  // Send an encoded snapshot of the world back
+  private snapshot(requestId: string): void {
+    const state = this.captureState();
+    const snapshot: PhysicsSnapshot = {
+      time: state.time,
+      step: state.step,
+      data: encodeWorldState(state),
+    };
+
+    this.post(
+      {
+        type: PhysicsWorkerMessageType.SNAPSHOT,
+        requestId,
+        snapshot,
+      },
+      [snapshot.data]
+    );
+  }
+
+  // Restore the world from an encoded snapshot
+  // A refused snapshot is reported back rather than thrown out of the worker
+  private restore(snapshot: PhysicsSnapshot, requestId: string): void {
+    let error: string | undefined;
+    try {
+      this.applyState(decodeWorldState(snapshot.data));
+
+      // Anything recorded after the snapshot belongs to another timeline
+      this.clearRewindStates();
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    this.post({
+      type: PhysicsWorkerMessageType.RESTORE,
+      requestId,
+      error,
+    });
+  }
+
+  // Forget recorded states, e.g. when bodies or constraints come and go
+  private clearRewindStates(): void {
+    this.rewindHead = 0;
+    this.rewindCount = 0;
+  }
+
+  // Resize the rewind ring buffer, discarding recorded states
+  private setRewindBuffer(size: number): void {
+    this.rewindSize = Math.max(0, Math.floor(size));
+    this.rewindBuffer = new Array(this.rewindSize);
+    this.rewindHead = 0;
+    this.rewindCount = 0;
+  }
+
+  // Record the current state in the rewind ring buffer
+  private recordRewindState(): void {
+    this.rewindBuffer[this.rewindHead] = encodeWorldState(this.captureState());
+    this.rewindHead = (this.rewindHead + 1) % this.rewindSize;
+    this.rewindCount = Math.min(this.rewindCount + 1, this.rewindSize);
+  }
+
+  // Step the world back, as far as the ring buffer allows
+  private rewind(steps: number, requestId: string): void {
+    const count = Math.min(Math.max(0, Math.floor(steps)), this.rewindCount);
+
+    if (count > 0) {
+      // The newest entry is the state before the latest step
+      const slot =
+        (this.rewindHead - count + this.rewindSize) % this.rewindSize;
+      this.applyState(decodeWorldState(this.rewindBuffer[slot]));
+
+      // The rewound states are consumed; recording resumes from the slot
+      this.rewindHead = slot;
+      this.rewindCount -= count;
+    }
+
+    this.post({
+      type: PhysicsWorkerMessageType.REWIND,
+      requestId,
+      steps: count,
+    });
+  }
+
+  // Turn debug output on or off
+  private setDebug(enabled: boolean): void {
+    this.debugEnabled = enabled;
+
+    // Bring the renderer up to date with every existing body
+    if (enabled) this.sendDebugShapes(Array.from(this.bodies.keys()));
+  }
+
+  // Describe a body's collider shapes in body-local space
+  private describeShapes(body: CANNON.Body): PhysicsCompoundChildOptions[] {
+    return body.shapes.map((shape, i) => {
+      const offset = body.shapeOffsets[i];
+      const orientation = body.shapeOrientations[i];
+      const placement = {
+        offset: [offset.x, offset.y, offset.z] as [number, number, number],
+        quaternion: [
+          orientation.x,
+          orientation.y,
+          orientation.z,
+          orientation.w,
+        ] as [number, number, number, number],
+      };
+
+      if (shape instanceof CANNON.Box) {
+        const half = shape.halfExtents;
+        return {
+          type: PhysicsShapeType.BOX,
+          size: [half.x * 2, half.y * 2, half.z * 2],
+          ...placement,
+        };
+      }
+      if (shape instanceof CANNON.Sphere) {
+        return {
+          type: PhysicsShapeType.SPHERE,
+          radius: shape.radius,
+          ...placement,
+        };
+      }
+      if (shape instanceof CANNON.Plane) {
+        return { type: PhysicsShapeType.PLANE, ...placement };
+      }
+      if (shape instanceof CANNON.ConvexPolyhedron) {
+        // Includes cylinders; fan-triangulate the polygon faces
+        const indices: number[] = [];
+        for (const face of shape.faces) {
+          for (let j = 1; j < face.length - 1; j++) {
+            indices.push(face[0], face[j], face[j + 1]);
+          }
+        }
+        const vertices = new Float32Array(shape.vertices.length * 3);
+        shape.vertices.forEach((v, j) => vertices.set([v.x, v.y, v.z], j * 3));
+        return {
+          type: PhysicsShapeType.TRIMESH,
+          vertices,
+          indices: new Uint32Array(indices),
+          ...placement,
+        };
+      }
+      if (shape instanceof CANNON.Trimesh) {
+        return {
+          type: PhysicsShapeType.TRIMESH,
+          vertices: new Float32Array(shape.vertices),
+          indices: Uint32Array.from(shape.indices),
+          ...placement,
+        };
+      }
+      if (shape instanceof CANNON.Heightfield) {
+        // Two triangles per grid cell, in the shape's own Z-up frame
+        const rows = shape.data.length;
+        const columns = shape.data[0]?.length ?? 0;
+        const vertices = new Float32Array(rows * columns * 3);
+        const indices: number[] = [];
+        for (let x = 0; x < rows; x++) {
+          for (let y = 0; y < columns; y++) {
+            vertices.set(
+              [x * shape.elementSize, y * shape.elementSize, shape.data[x][y]],
+              (x * columns + y) * 3
+            );
+            if (x < rows - 1 && y < columns - 1) {
+              const a = x * columns + y;
+              const b = a + columns;
+              indices.push(a, b, a + 1, b, b + 1, a + 1);
+            }
+          }
+        }
+        return {
+          type: PhysicsShapeType.TRIMESH,
+          vertices,
+          indices: new Uint32Array(indices),
+          ...placement,
+        };
+      }
+
+      // Anything else (particles) is drawn as a small marker
+      return { type: PhysicsShapeType.SPHERE, radius: 0.05, ...placement };
+    });
+  }
+
+  // Send collider descriptions for the given bodies
+  private sendDebugShapes(ids: number[]): void {
+    const bodies: PhysicsDebugBodyShapes[] = [];
+    const buffers: ArrayBuffer[] = [];
+
+    for (const id of ids) {
+      const body = this.bodies.get(id);
+      if (!body) continue;
+
+      const shapes = this.describeShapes(body);
+      shapes.forEach((shape) => {
+        if (shape.vertices) buffers.push(shape.vertices.buffer as ArrayBuffer);
+        if (shape.indices) buffers.push(shape.indices.buffer as ArrayBuffer);
+      });
+      bodies.push({ id, shapes });
+    }
+
+    if (bodies.length === 0) return;
+
+    this.post({ type: PhysicsWorkerMessageType.DEBUG_SHAPES, bodies }, buffers);
+  }
+
+  // Send sleep states, bounds, contacts and constraint links for this step
+  private sendDebugFrame(): void {
+    const count = this.bodies.size;
+    const ids = new Uint32Array(count);
+    const sleepStates = new Uint8Array(count);
+    const aabbs = new Float32Array(count * 6);
+
+    let i = 0;
+    this.bodies.forEach((body, id) => {
+      if (body.aabbNeedsUpdate) body.updateAABB();
+      const { lowerBound, upperBound } = body.aabb;
+
+      ids[i] = id;
+      sleepStates[i] = body.sleepState;
+      aabbs.set(
+        [
+          lowerBound.x,
+          lowerBound.y,
+          lowerBound.z,
+          upperBound.x,
+          upperBound.y,
+          upperBound.z,
+        ],
+        i * 6
+      );
+      i++;
+    });
+
+    const contacts = new Float32Array(this.world.contacts.length * 6);
+    this.world.contacts.forEach((contact, j) => {
+      contacts.set(
+        [
+          contact.bi.position.x + contact.ri.x,
+          contact.bi.position.y + contact.ri.y,
+          contact.bi.position.z + contact.ri.z,
+          contact.ni.x,
+          contact.ni.y,
+          contact.ni.z,
+        ],
+        j * 6
+      );
+    });
+
+    // Pivot constraints link their anchors, the rest link body centres
+    const anchors: number[] = [];
+    const anchorA = new CANNON.Vec3();
+    const anchorB = new CANNON.Vec3();
+    this.constraints.forEach((constraint) => {
+      if (constraint instanceof CANNON.PointToPointConstraint) {
+        constraint.bodyA.pointToWorldFrame(constraint.pivotA, anchorA);
+        constraint.bodyB.pointToWorldFrame(constraint.pivotB, anchorB);
+      } else {
+        anchorA.copy(constraint.bodyA.position);
+        anchorB.copy(constraint.bodyB.position);
+      }
+      anchors.push(anchorA.x, anchorA.y, anchorA.z);
+      anchors.push(anchorB.x, anchorB.y, anchorB.z);
+    });
+    this.springs.forEach((spring) => {
+      spring.getWorldAnchorA(anchorA);
+      spring.getWorldAnchorB(anchorB);
+      anchors.push(anchorA.x, anchorA.y, anchorA.z);
+      anchors.push(anchorB.x, anchorB.y, anchorB.z);
+    });
+    const links = new Float32Array(anchors);
+
+    this.post(
+      {
+        type: PhysicsWorkerMessageType.DEBUG_FRAME,
+        ids,
+        sleepStates,
+        aabbs,
+        contacts,
+        links,
+      },
+      [
+        ids.buffer,
+        sleepStates.buffer,
+        aabbs.buffer,
+        contacts.buffer,
+        links.buffer,
+      ]
+    );
+  }
+
+  // Build a stable key for a pair of body IDs
+  private pairKey(idA: number, idB: number): string {
+    return idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+  }
+
+  // Gather contact data for every touching pair from the solved equations
+  private collectContacts(dt: number): Map<string, ContactInfo> {
+    const contacts: Map<string, ContactInfo> = new Map();
+
+    for (const contact of this.world.contacts) {
+      const idA = this.bodyIds.get(contact.bi);
+      const idB = this.bodyIds.get(contact.bj);
+      if (idA === undefined || idB === undefined) continue;
+
+      const key = this.pairKey(idA, idB);
+      const impulse = Math.abs(contact.multiplier * dt);
+      const existing = contacts.get(key);
+
+      // Pairs can touch at several points: report the first point and
+      // the total impulse across all of them
+      if (existing) {
+        existing.impulse += impulse;
+      } else {
+        contacts.set(key, this.toContactInfo(contact, idA, idB, impulse));
+      }
+    }
+
+    return contacts;
+  }
+
+  // Convert a contact equation into transferable contact data
+  private toContactInfo(
+    contact: CANNON.ContactEquation,
+    idA: number,
+    idB: number,
+    impulse: number
+  ): ContactInfo {
+    // ri is relative to bi's position; ni points from bi towards bj
+    return {
+      bodyA: idA,
+      bodyB: idB,
+      point: [
+        contact.bi.position.x + contact.ri.x,
+        contact.bi.position.y + contact.ri.y,
+        contact.bi.position.z + contact.ri.z,
+      ],
+      normal: [contact.ni.x, contact.ni.y, contact.ni.z],
+      impulse,
+    };
+  }
+
+  // Turn the contact pairs recorded during the last step into events
+  private gatherCollisions(dt: number): void {
+    const contacts = this.collectContacts(dt);
+    const events = this.collisionEvents;
+
+    for (const [bodyA, bodyB] of this.beganContacts) {
+      const idA = this.bodyIds.get(bodyA);
+      const idB = this.bodyIds.get(bodyB);
+      if (idA === undefined || idB === undefined) continue;
+
+      if (bodyA.isTrigger || bodyB.isTrigger) {
+        this.pushTriggerEvent(
+          PhysicsTriggerEventType.ENTER,
+          bodyA,
+          bodyB,
+          idA,
+          idB
+        );
+        continue;
+      }
+
+      const info = contacts.get(this.pairKey(idA, idB));
+      events.push({
+        type: PhysicsCollisionEventType.BEGIN,
+        ...(info ?? this.emptyContact(idA, idB)),
+      });
+    }
+
+    // Ended pairs no longer have equations; report their last known contact
+    for (const [bodyA, bodyB] of this.endedContacts) {
+      const idA = this.bodyIds.get(bodyA);
+      const idB = this.bodyIds.get(bodyB);
+      if (idA === undefined || idB === undefined) continue;
+
+      if (bodyA.isTrigger || bodyB.isTrigger) {
+        this.pushTriggerEvent(
+          PhysicsTriggerEventType.EXIT,
+          bodyA,
+          bodyB,
+          idA,
+          idB
+        );
+        continue;
+      }
+
+      const info = this.lastContacts.get(this.pairKey(idA, idB));
+      events.push({
+        type: PhysicsCollisionEventType.END,
+        ...(info ? { ...info, impulse: 0 } : this.emptyContact(idA, idB)),
+      });
+    }
+
+    this.beganContacts = [];
+    this.endedContacts = [];
+    this.lastContacts = contacts;
+  }
+
+  // Record a trigger overlap, with the trigger body first
+  private pushTriggerEvent(
+    type: PhysicsTriggerEventType,
+    bodyA: CANNON.Body,
+    bodyB: CANNON.Body,
+    idA: number,
+    idB: number
+  ): void {
+    const aIsTrigger = bodyA.isTrigger;
+    const trigger = aIsTrigger ? bodyA : bodyB;
+    const other = aIsTrigger ? bodyB : bodyA;
+
+    // A static trigger only reports things that can move into it, not the
+    // level geometry or other static triggers it sits among
+    if (
+      this.staticTriggers.has(trigger) &&
+      (other.type === CANNON.Body.STATIC || this.staticTriggers.has(other))
+    ) {
+      return;
+    }
+
+    this.triggerEvents.push({
+      type,
+      triggerId: aIsTrigger ? idA : idB,
+      otherId: aIsTrigger ? idB : idA,
+    });
+  }
+
+  // Send the batches of collision and trigger events gathered since the
+  // last update
+  private sendContactEvents(): void {
+    if (this.collisionEvents.length > 0) {
+      this.post({
+        type: PhysicsWorkerMessageType.COLLISIONS,
+        events: this.collisionEvents,
+      });
+      this.collisionEvents = [];
+    }
+
+    if (this.triggerEvents.length > 0) {
+      this.post({
+        type: PhysicsWorkerMessageType.TRIGGERS,
+        events: this.triggerEvents,
+      });
+      this.triggerEvents = [];
+    }
+
+    if (this.waterEvents.length > 0) {
+      this.post({
+        type: PhysicsWorkerMessageType.WATER_EVENTS,
+        events: this.waterEvents,
+      });
+      this.waterEvents = [];
+    }
+  }
+
+  // Contact data for a pair with no recorded contact point
+  private emptyContact(idA: number, idB: number): ContactInfo {
+    return {
+      bodyA: idA,
+      bodyB: idB,
+      point: [0, 0, 0],
+      normal: [0, 0, 0],
+      impulse: 0,
+    };
+  }
+
+  // Sync data with main thread
+  private sync(): void {
+    // Copy IDs, positions and quaternions to our arrays
+    let i = 0;
+    this.bodies.forEach((body, id) => {
+      // ID, so the main thread never relies on iteration order
+      this.ids[i] = id;
+
+      // Position
+      this.positions[i * 3] = body.position.x;
+      this.positions[i * 3 + 1] = body.position.y;
+      this.positions[i * 3 + 2] = body.position.z;
+
+      // Quaternion (XYZW)
+      this.quaternions[i * 4] = body.quaternion.x;
+      this.quaternions[i * 4 + 1] = body.quaternion.y;
+      this.quaternions[i * 4 + 2] = body.quaternion.z;
+      this.quaternions[i * 4 + 3] = body.quaternion.w;
+
+      // Pose before the latest step
+      this.previousPositions[i * 3] = body.previousPosition.x;
+      this.previousPositions[i * 3 + 1] = body.previousPosition.y;
+      this.previousPositions[i * 3 + 2] = body.previousPosition.z;
+      this.previousQuaternions[i * 4] = body.previousQuaternion.x;
+      this.previousQuaternions[i * 4 + 1] = body.previousQuaternion.y;
+      this.previousQuaternions[i * 4 + 2] = body.previousQuaternion.z;
+      this.previousQuaternions[i * 4 + 3] = body.previousQuaternion.w;
+
+      i++;
+    });
+
+    // Shared memory needs no message, and the arrays can be reused
+    if (this.useSharedTransforms) {
+      this.writeSharedTransforms();
+      return;
+    }
+
+    // Send positions and quaternions back to main thread
+    const message: PhysicsWorkerSyncMessage = {
+      type: PhysicsWorkerMessageType.SYNC,
+      sequence: this.sequence,
+      bodies: {
+        count: this.bodies.size,
+        ids: this.ids,
+        positions: this.positions,
+        quaternions: this.quaternions,
+        previousPositions: this.previousPositions,
+        previousQuaternions: this.previousQuaternions,
+      },
+    };
+    const transfer: ArrayBuffer[] = [
+      this.ids.buffer as ArrayBuffer,
+      this.positions.buffer as ArrayBuffer,
+      this.quaternions.buffer as ArrayBuffer,
+      this.previousPositions.buffer as ArrayBuffer,
+      this.previousQuaternions.buffer as ArrayBuffer,
+    ];
+
+    // Wheel transforms ride along so wheel meshes follow their chassis
+    if (this.vehicles.size > 0) {
+      message.wheels = this.collectWheels();
+      transfer.push(
+        message.wheels.vehicleIds.buffer as ArrayBuffer,
+        message.wheels.positions.buffer as ArrayBuffer,
+        message.wheels.quaternions.buffer as ArrayBuffer,
+        message.wheels.previousPositions.buffer as ArrayBuffer,
+        message.wheels.previousQuaternions.buffer as ArrayBuffer
+      );
+    }
+
+    // Use transferable objects for better performance
+    this.post(message, transfer);
+
+    // Create new arrays since we transferred the old ones
+    this.ids = new Uint32Array(this.bodies.size);
+    this.positions = new Float32Array(this.bodies.size * 3);
+    this.quaternions = new Float32Array(this.bodies.size * 4);
+    this.previousPositions = new Float32Array(this.bodies.size * 3);
+    this.previousQuaternions = new Float32Array(this.bodies.size * 4);
+  }
+
+  // Publish this step's transforms through the shared buffer
+  private writeSharedTransforms(): void {
+    const wheels = this.vehicles.size > 0 ? this.collectWheels() : undefined;
+    const bodyCount = this.bodies.size;
+    const wheelCount = wheels?.count ?? 0;
+
+    // Grow with headroom and hand the new buffer to the main thread
+    if (
+      !this.sharedTransforms ||
+      !this.sharedTransforms.fits(bodyCount, wheelCount)
+    ) {
+      this.sharedTransforms = SharedTransforms.create(
+        Math.max(64, bodyCount * 2),
+        Math.max(16, wheelCount * 2)
+      );
+      this.post({
+        type: PhysicsWorkerMessageType.SHARED_TRANSFORMS,
+        buffer: this.sharedTransforms.buffer,
+        bodyCapacity: this.sharedTransforms.bodyCapacity,
+        wheelCapacity: this.sharedTransforms.wheelCapacity,
+      });
+    }
+
+    this.sharedTransforms.write(
+      {
+        count: bodyCount,
+        ids: this.ids,
+        positions: this.positions,
+        quaternions: this.quaternions,
+        previousPositions: this.previousPositions,
+        previousQuaternions: this.previousQuaternions,
+      },
+      wheels && { ...wheels, ids: wheels.vehicleIds },
+      this.sequence
+    );
+  }
+
+  // Gather world transforms of every vehicle wheel
+  // Wheels keep the transforms recorded before the latest step, unless
+  // vehicles came or went since, or no step ran since the last sync
+  private collectWheels(): NonNullable<PhysicsWorkerSyncMessage["wheels"]> {
+    const previous = this.previousWheels;
+    this.previousWheels = undefined;
+
+    let count = 0;
+    this.vehicles.forEach((vehicle) => (count += vehicle.wheelInfos.length));
+
+    const vehicleIds = new Uint32Array(count);
+    const positions = new Float32Array(count * 3);
+    const quaternions = new Float32Array(count * 4);
+
+    let i = 0;
+    this.vehicles.forEach((vehicle, id) => {
+      vehicle.wheelInfos.forEach((wheel, index) => {
+        vehicle.updateWheelTransform(index);
+        const { position, quaternion } = wheel.worldTransform;
+
+        vehicleIds[i] = id;
+        positions.set([position.x, position.y, position.z], i * 3);
+        quaternions.set(
+          [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+          i * 4
+        );
+        i++;
+      });
+    });
+
+    const samePrevious =
+      previous?.count === count &&
+      previous.vehicleIds.every((id, index) => id === vehicleIds[index]);
+
+    return {
+      count,
+      vehicleIds,
+      positions,
+      quaternions,
+      previousPositions: samePrevious ? previous.positions : positions.slice(),
+      previousQuaternions: samePrevious
+        ? previous.quaternions
+        : quaternions.slice(),
+    };
+  }
+
+  // Resize data arrays if needed
+  private resizeArrays(): void {
+    const size = this.bodies.size;
+
+    // Only resize if current arrays are too small
+    if (this.ids.length < size) {
+      const newIds = new Uint32Array(size);
+      newIds.set(this.ids);
+      this.ids = newIds;
+    }
+
+    if (this.positions.length < size * 3) {
+      const newPositions = new Float32Array(size * 3);
+      newPositions.set(this.positions);
+      this.positions = newPositions;
+    }
+
+    if (this.quaternions.length < size * 4) {
+      const newQuaternions = new Float32Array(size * 4);
+      newQuaternions.set(this.quaternions);
+      this.quaternions = newQuaternions;
+    }
+
+    // Previous transforms are rewritten on every sync, so need no copying
+    if (this.previousPositions.length < size * 3) {
+      this.previousPositions = new Float32Array(size * 3);
+    }
+
+    if (this.previousQuaternions.length < size * 4) {
+      this.previousQuaternions = new Float32Array(size * 4);
+    }
+  }
+
+  // Get body properties
+  private getBodyProps(id: number, requestId: string): void {
+    const body = this.bodies.get(id);
+    if (!body) {
+      console.warn(`Body with id ${id} not found`);
+      return;
+    }
+
+    // Create a properties object with key Cannon.js body properties
+    const props = {
+      type: PhysicsWorkerMessageType.GET_BODY_PROPS,
+      mass: body.mass,
+      position: [body.position.x, body.position.y, body.position.z] as [
+        number,
+        number,
+        number
+      ],
+      quaternion: [
+        body.quaternion.x,
+        body.quaternion.y,
+        body.quaternion.z,
+        body.quaternion.w,
+      ] as [number, number, number, number],
+      velocity: [body.velocity.x, body.velocity.y, body.velocity.z] as [
+        number,
+        number,
+        number
+      ],
+      angularVelocity: [
+        body.angularVelocity.x,
+        body.angularVelocity.y,
+        body.angularVelocity.z,
+      ] as [number, number, number],
+      fixedRotation: body.fixedRotation,
+      sleepState: body.sleepState,
+      requestId: requestId,
+    };
+
+    // Send the properties back to the main thread
+    this.post(props);
+  }
+
+  // Convert a cannon raycast result into a hit for the main thread
+  private toRaycastHit(result: CANNON.RaycastResult): PhysicsRaycastHit | null {
+    if (!result.hasHit || !result.body) return null;
+
+    const bodyId = this.bodyIds.get(result.body);
+    if (bodyId === undefined) return null;
+
+    return {
+      bodyId,
+      point: [
+        result.hitPointWorld.x,
+        result.hitPointWorld.y,
+        result.hitPointWorld.z,
+      ],
+      normal: [
+        result.hitNormalWorld.x,
+        result.hitNormalWorld.y,
+        result.hitNormalWorld.z,
+      ],
+      distance: result.distance,
+    };
+  }
+
+  // Cast a ray and collect the closest hit or every hit
+  private castRay(
+    mode: PhysicsRaycastMode,
+    from: [number, number, number],
+    to: [number, number, number],
+    options: PhysicsRaycastOptions = {}
+  ): PhysicsRaycastHit[] {
+    const hits: PhysicsRaycastHit[] = [];
+    const fromVec = new CANNON.Vec3(...from);
+    const toVec = new CANNON.Vec3(...to);
+
+    if (mode === PhysicsRaycastMode.CLOSEST) {
+      const result = new CANNON.RaycastResult();
+      this.world.raycastClosest(fromVec, toVec, options, result);
+      const hit = this.toRaycastHit(result);
+      if (hit) hits.push(hit);
+    } else {
+      this.world.raycastAll(fromVec, toVec, options, (result) => {
+        const hit = this.toRaycastHit(result);
+        if (hit) hits.push(hit);
+      });
+      hits.sort((a, b) => a.distance - b.distance);
+    }
+
+    return hits;
+  }
+
+  // Sweep a sphere along a segment and return the first hit
+  // Moves the sphere a quarter radius at a time and tests it against each
+  // candidate shape with Cannon's own sphere contact tests, then bisects
+  // between the last clear and first touching positions. Steps of a quarter
+  // radius leave the whole swept volume covered except a sliver at 97% of
+  // the radius from the path. Only the part of the sweep within a radius of
+  // each candidate's bounds is marched, in at most MAX_SPHERE_CAST_STEPS
+  private castSphere(
+    from: [number, number, number],
+    to: [number, number, number],
+    radius: number,
+    options: PhysicsRaycastOptions = {}
+  ): PhysicsRaycastHit[] {
+    const start = new CANNON.Vec3(...from);
+    const end = new CANNON.Vec3(...to);
+    const direction = end.vsub(start);
+    const length = direction.length();
+    if (length === 0 || radius <= 0) return [];
+    direction.scale(1 / length, direction);
+
+    // Bodies whose bounds overlap the bounds of the whole sweep
+    const sweepBounds = new CANNON.AABB({
+      lowerBound: new CANNON.Vec3(
+        Math.min(start.x, end.x) - radius,
+        Math.min(start.y, end.y) - radius,
+        Math.min(start.z, end.z) - radius
+      ),
+      upperBound: new CANNON.Vec3(
+        Math.max(start.x, end.x) + radius,
+        Math.max(start.y, end.y) + radius,
+        Math.max(start.z, end.z) + radius
+      ),
+    });
+    const group = options.collisionFilterGroup ?? -1;
+    const mask = options.collisionFilterMask ?? -1;
+    const candidates = this.world.bodies.filter((body) => {
+      if (!body.collisionResponse || !this.bodyIds.has(body)) return false;
+      if (!(body.collisionFilterGroup & mask)) return false;
+      if (!(body.collisionFilterMask & group)) return false;
+      if (body.aabbNeedsUpdate) body.updateAABB();
+      return body.aabb.overlaps(sweepBounds);
+    });
+    if (candidates.length === 0) return [];
+
+    // A free-standing dynamic probe, so contacts are generated against
+    // static and kinematic bodies alike
+    const probe = new CANNON.Body({ mass: 1 });
+    probe.addShape(new CANNON.Sphere(radius));
+    const contactsAt = (
+      distance: number,
+      body: CANNON.Body
+    ): CANNON.ContactEquation[] => {
+      probe.position.copy(start.vadd(direction.scale(distance)));
+      const contacts: CANNON.ContactEquation[] = [];
+      this.world.narrowphase.getContacts(
+        [probe],
+        [body],
+        this.world,
+        contacts,
+        [],
+        [],
+        []
+      );
+      return contacts;
+    };
+
+    let closest: PhysicsRaycastHit | null = null;
+
+    for (const body of candidates) {
+      // Nothing past the closest hit so far can win
+      const limit = closest ? closest.distance : length;
+      const interval = this.sweepInterval(
+        body.aabb,
+        start,
+        direction,
+        radius,
+        limit
+      );
+      if (!interval) continue;
+      const [enter, exit] = interval;
+      const step = Math.max(radius / 4, (exit - enter) / MAX_SPHERE_CAST_STEPS);
+
+      // Short of the bounds the sphere is clear, so only a sweep starting
+      // inside them can touch at 0
+      let clear = enter > 0 ? enter : -1;
+      let touching = -1;
+      for (let distance = enter; ; distance = Math.min(distance + step, exit)) {
+        if (contactsAt(distance, body).length > 0) {
+          touching = distance;
+          break;
+        }
+        clear = distance;
+        if (distance >= exit) break;
+      }
+      if (touching < 0) continue;
+
+      // Bisect to the moment of first contact; starting inside reports 0
+      if (clear >= 0) {
+        for (let i = 0; i < 16; i++) {
+          const middle = (clear + touching) / 2;
+          if (contactsAt(middle, body).length > 0) {
+            touching = middle;
+          } else {
+            clear = middle;
+          }
+        }
+      }
+
+      const hit = this.toSphereHit(body, probe, contactsAt(touching, body));
+      if (hit) {
+        hit.distance = touching;
+        if (!closest || hit.distance < closest.distance) closest = hit;
+      }
+    }
+
+    return closest ? [closest] : [];
+  }
+
+  // Find the stretch of a sweep where the sphere overlaps a body's bounds,
+  // with a slab test against the bounds grown by the radius
+  private sweepInterval(
+    aabb: CANNON.AABB,
+    start: CANNON.Vec3,
+    direction: CANNON.Vec3,
+    radius: number,
+    limit: number
+  ): [number, number] | null {
+    let enter = 0;
+    let exit = limit;
+
+    for (const axis of ["x", "y", "z"] as const) {
+      const min = aabb.lowerBound[axis] - radius;
+      const max = aabb.upperBound[axis] + radius;
+      const origin = start[axis];
+      const delta = direction[axis];
+
+      if (delta === 0) {
+        // Parallel to the slab, so either always within it or never
+        if (origin < min || origin > max) return null;
+        continue;
+      }
+
+      const a = (min - origin) / delta;
+      const b = (max - origin) / delta;
+      enter = Math.max(enter, Math.min(a, b));
+      exit = Math.min(exit, Math.max(a, b));
+      if (enter > exit) return null;
+    }
+
+    return [enter, exit];
+  }
+
+  // Turn the deepest probe contact into a hit on the other body's surface
+  private toSphereHit(
+    body: CANNON.Body,
+    probe: CANNON.Body,
+    contacts: CANNON.ContactEquation[]
+  ): PhysicsRaycastHit | null {
+    const bodyId = this.bodyIds.get(body);
+    if (bodyId === undefined || contacts.length === 0) return null;
+
+    // The deepest contact has the most negative separation along its normal
+    let deepest = contacts[0];
+    let deepestDepth = Infinity;
+    for (const contact of contacts) {
+      const pointI = contact.bi.position.vadd(contact.ri);
+      const pointJ = contact.bj.position.vadd(contact.rj);
+      const depth = pointJ.vsub(pointI).dot(contact.ni);
+      if (depth < deepestDepth) {
+        deepestDepth = depth;
+        deepest = contact;
+      }
+    }
+
+    // ni points out of bi; report the point on the hit body and its normal
+    // pointing back towards the sphere
+    const onI = deepest.bi !== probe;
+    const point = onI
+      ? deepest.bi.position.vadd(deepest.ri)
+      : deepest.bj.position.vadd(deepest.rj);
+    const normal = onI ? deepest.ni.clone() : deepest.ni.negate();
+
+    return {
+      bodyId,
+      point: [point.x, point.y, point.z],
+      normal: [normal.x, normal.y, normal.z],
+      distance: 0,
+    };
+  }
+
+  // Run a raycast query and send the hits back
+  private raycast(
+    mode: PhysicsRaycastMode,
+    from: [number, number, number],
+    to: [number, number, number],
+    requestId: string,
+    options?: PhysicsRaycastOptions
+  ): void {
+    this.post({
+      type: PhysicsWorkerMessageType.RAYCAST,
+      requestId,
+      hits: this.castRay(mode, from, to, options),
+    });
+  }
+
+  // Run a sphere-cast query and send the hit back
+  private sphereCast(
+    from: [number, number, number],
+    to: [number, number, number],
+    radius: number,
+    requestId: string,
+    options?: PhysicsRaycastOptions
+  ): void {
+    this.post({
+      type: PhysicsWorkerMessageType.SPHERE_CAST,
+      requestId,
+      hits: this.castSphere(from, to, radius, options),
+    });
+  }
+
+  // Handle a message from the main thread
+  handleMessage(message: PhysicsWorkerIncomingMessage): void {
+    // Lets the main thread tell which commands a sync already reflects
+    if ("sequence" in message && message.sequence !== undefined) {
+      this.sequence = message.sequence;
+    }
+
+    switch (message.type) {
+      case PhysicsWorkerMessageType.INIT:
+        this.init(
+          message.gravity,
+          message.iterations,
+          message.sharedTransforms
+        );
+        break;
+      case PhysicsWorkerMessageType.ADD_BODY:
+        this.createBody(message.id, message.options);
+        break;
+      case PhysicsWorkerMessageType.REMOVE_BODY:
+        this.removeBody(message.id);
+        break;
+      case PhysicsWorkerMessageType.UPDATE:
+        this.update(message.dt, message.steps);
+        break;
+      case PhysicsWorkerMessageType.APPLY_FORCE:
+        this.applyForce(message.id, message.force, message.worldPoint);
+        break;
+      case PhysicsWorkerMessageType.APPLY_IMPULSE:
+        this.applyImpulse(message.id, message.impulse, message.worldPoint);
+        break;
+      case PhysicsWorkerMessageType.SET_POSITION:
+        this.setPosition(message.id, message.position);
+        break;
+      case PhysicsWorkerMessageType.SET_VELOCITY:
+        this.setVelocity(message.id, message.velocity);
+        break;
+      case PhysicsWorkerMessageType.SET_ROTATION:
+        this.setRotation(message.id, message.quaternion);
+        break;
+      case PhysicsWorkerMessageType.SET_ANGULAR_VELOCITY:
+        this.setAngularVelocity(message.id, message.angularVelocity);
+        break;
+      case PhysicsWorkerMessageType.EXPLODE:
+        applyExplosion(this.bodies.values(), message.options);
+        break;
+      case PhysicsWorkerMessageType.ADD_FORCE_FIELD:
+        this.forceFields.set(message.id, message.options);
+        break;
+      case PhysicsWorkerMessageType.REMOVE_FORCE_FIELD:
+        this.forceFields.delete(message.id);
+        break;
+      case PhysicsWorkerMessageType.ADD_WATER:
+        this.addWater(message.id, message.options);
+        break;
+      case PhysicsWorkerMessageType.REMOVE_WATER:
+        // Bodies still in the water leave it along with the volume
+        this.waters.get(message.id)?.release(this.bodies, this.waterEvents);
+        this.waters.delete(message.id);
+        break;
+      case PhysicsWorkerMessageType.SET_BODY_TYPE:
+        this.setBodyType(message.id, message.bodyType);
+        break;
+      case PhysicsWorkerMessageType.SET_MASS:
+        this.setMass(message.id, message.mass);
+        break;
+      case PhysicsWorkerMessageType.APPLY_TORQUE:
+        this.applyTorque(message.id, message.torque);
+        break;
+      case PhysicsWorkerMessageType.WAKE_UP:
+        this.wakeUp(message.id);
+        break;
+      case PhysicsWorkerMessageType.SLEEP:
+        this.sleep(message.id);
+        break;
+      case PhysicsWorkerMessageType.SNAPSHOT:
+        this.snapshot(message.requestId);
+        break;
+      case PhysicsWorkerMessageType.RESTORE:
+        this.restore(message.snapshot, message.requestId);
+        break;
+      case PhysicsWorkerMessageType.SET_REWIND_BUFFER:
+        this.setRewindBuffer(message.size);
+        break;
+      case PhysicsWorkerMessageType.REWIND:
+        this.rewind(message.steps, message.requestId);
+        break;
+      case PhysicsWorkerMessageType.SET_DEBUG:
+        this.setDebug(message.enabled);
+        break;
+      case PhysicsWorkerMessageType.GET_BODY_PROPS:
+        this.getBodyProps(message.id, message.requestId);
+        break;
+      case PhysicsWorkerMessageType.ADD_MATERIAL:
+        this.addMaterial(message.name, message.options);
+        break;
+      case PhysicsWorkerMessageType.ADD_CONTACT_MATERIAL:
+        this.addContactMaterial(
+          message.materialA,
+          message.materialB,
+          message.options
+        );
+        break;
+      case PhysicsWorkerMessageType.ADD_CHARACTER:
+        this.addCharacter(message.id, message.options);
+        break;
+      case PhysicsWorkerMessageType.SET_CHARACTER_INPUT:
+        this.setCharacterInput(message.id, message.move, message.jump);
+        break;
+      case PhysicsWorkerMessageType.ADD_VEHICLE:
+        this.addVehicle(message.id, message.options);
+        break;
+      case PhysicsWorkerMessageType.SET_VEHICLE_INPUT:
+        this.setVehicleInput(message.id, message.input);
+        break;
+      case PhysicsWorkerMessageType.ADD_CONSTRAINT:
+        this.addConstraint(message.id, message.options);
+        break;
+      case PhysicsWorkerMessageType.REMOVE_CONSTRAINT:
+        this.removeConstraint(message.id);
+        break;
+      case PhysicsWorkerMessageType.SET_HINGE_MOTOR:
+        this.setHingeMotor(message.id, message.motor);
+        break;
+      case PhysicsWorkerMessageType.RAYCAST:
+        this.raycast(
+          message.mode,
+          message.from,
+          message.to,
+          message.requestId,
+          message.options
+        );
+        break;
+      case PhysicsWorkerMessageType.SPHERE_CAST:
+        this.sphereCast(
+          message.from,
+          message.to,
+          message.radius,
+          message.requestId,
+          message.options
+        );
+        break;
+      default:
+        console.error("Unknown message type:", (message as any).type);
+    }
+  }
+}
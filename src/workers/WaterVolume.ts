@@ -0,0 +1,211 @@
+import * as CANNON from "cannon-es";
+import {
+  PhysicsWaterEvent,
+  PhysicsWaterEventType,
+  PhysicsWaterOptions,
+} from "../physics/types";
+import { waterHeight, withinWaterBounds } from "../physics/water";
+
+/** Sample points per axis inside each shape's bounds */
+const SAMPLES_PER_AXIS = 3;
+
+/**
+ * A point inside a body that carries part of its volume
+ */
+interface VolumeSample {
+  /** Position relative to the body, in body space */
+  local: CANNON.Vec3;
+  /** Volume represented by the sample */
+  volume: number;
+  /** Height of the slab the sample represents, for smooth immersion */
+  height: number;
+}
+
+/**
+ * Samples of a body's volume, cached per body
+ */
+const bodySamples = new WeakMap<CANNON.Body, VolumeSample[]>();
+
+/**
+ * Spreads a body's volume over a grid of points in each of its shapes
+ * @param body The body
+ * @returns The body's volume samples
+ */
+function getSamples(body: CANNON.Body): VolumeSample[] {
+  let samples = bodySamples.get(body);
+  if (samples) return samples;
+
+  samples = [];
+  const min = new CANNON.Vec3();
+  const max = new CANNON.Vec3();
+  body.shapes.forEach((shape, i) => {
+    const volume = shape.volume();
+    if (!Number.isFinite(volume) || volume <= 0) return;
+
+    // Grid over the shape's bounds in body space
+    shape.calculateWorldAABB(
+      body.shapeOffsets[i],
+      body.shapeOrientations[i],
+      min,
+      max
+    );
+    const size = max.vsub(min);
+    const count = SAMPLES_PER_AXIS ** 3;
+    for (let x = 0; x < SAMPLES_PER_AXIS; x++) {
+      for (let y = 0; y < SAMPLES_PER_AXIS; y++) {
+        for (let z = 0; z < SAMPLES_PER_AXIS; z++) {
+          samples!.push({
+            local: new CANNON.Vec3(
+              min.x + (size.x * (x + 0.5)) / SAMPLES_PER_AXIS,
+              min.y + (size.y * (y + 0.5)) / SAMPLES_PER_AXIS,
+              min.z + (size.z * (z + 0.5)) / SAMPLES_PER_AXIS
+            ),
+            volume: volume / count,
+            height: size.y / SAMPLES_PER_AXIS,
+          });
+        }
+      }
+    }
+  });
+
+  bodySamples.set(body, samples);
+  return samples;
+}
+
+/**
+ * A pool or ocean that floats and slows the dynamic bodies inside it
+ * Buoyancy is applied per volume sample, so partly submerged bodies tilt
+ * towards their natural floating orientation
+ */
+export class WaterVolume {
+  /** Bodies touching the water after the last step */
+  private inside: Set<CANNON.Body> = new Set();
+
+  /**
+   * Creates a water volume
+   * @param id The water's ID, reported in events
+   * @param options Surface, bounds and fluid settings
+   */
+  constructor(readonly id: number, public options: PhysicsWaterOptions) {}
+
+  /**
+   * Applies buoyancy and drag for one step
+   * @param bodies Bodies to consider, with their IDs
+   * @param gravity The world's gravity
+   * @param time Simulated time in seconds
+   * @param dt Step size in seconds
+   * @param events Array to add enter and exit events to
+   */
+  apply(
+    bodies: Map<number, CANNON.Body>,
+    gravity: CANNON.Vec3,
+    time: number,
+    dt: number,
+    events: PhysicsWaterEvent[]
+  ): void {
+    const water = this.options;
+    const density = water.density ?? 1000;
+    const linearDrag = water.linearDrag ?? 1;
+    const angularDrag = water.angularDrag ?? 1;
+    const point = new CANNON.Vec3();
+
+    bodies.forEach((body, id) => {
+      if (body.type !== CANNON.Body.DYNAMIC) return;
+
+      let volume = 0;
+      let submerged = 0;
+      for (const sample of getSamples(body)) {
+        body.pointToWorldFrame(sample.local, point);
+        volume += sample.volume;
+
+        if (!withinWaterBounds(water, point.x, point.y, point.z)) continue;
+        const depth = waterHeight(water, point.x, point.z, time) - point.y;
+
+        // Treat each sample as a slab, so immersion changes smoothly
+        const fraction = Math.min(Math.max(depth / sample.height + 0.5, 0), 1);
+        if (fraction <= 0) continue;
+        submerged += sample.volume * fraction;
+
+        // Archimedes: displaced fluid weight, pushing against gravity
+        const buoyancy = gravity.scale(-density * sample.volume * fraction);
+        body.applyForce(buoyancy, point.vsub(body.position));
+      }
+
+      const wasInside = this.inside.has(body);
+      const isInside = submerged > 0;
+
+      if (isInside) {
+        // Drag grows with the submerged share of the body
+        const share = volume > 0 ? submerged / volume : 0;
+        body.velocity.scale(
+          Math.max(0, 1 - linearDrag * share * dt),
+          body.velocity
+        );
+        body.angularVelocity.scale(
+          Math.max(0, 1 - angularDrag * share * dt),
+          body.angularVelocity
+        );
+        this.inside.add(body);
+
+        // Waves and heightfield updates move the surface under a floating
+        // body, so keep it awake
+        if (water.waves?.length || water.heightfield) body.wakeUp();
+      } else {
+        this.inside.delete(body);
+      }
+
+      if (isInside !== wasInside) {
+        events.push(
+          this.event(
+            isInside ? PhysicsWaterEventType.ENTER : PhysicsWaterEventType.EXIT,
+            id,
+            body
+          )
+        );
+      }
+    });
+  }
+
+  /**
+   * Reports every body still inside as leaving, e.g. when the water is removed
+   * @param bodies Bodies in the world, with their IDs
+   * @param events Array to add exit events to
+   */
+  release(bodies: Map<number, CANNON.Body>, events: PhysicsWaterEvent[]): void {
+    bodies.forEach((body, id) => {
+      if (this.inside.has(body)) {
+        events.push(this.event(PhysicsWaterEventType.EXIT, id, body));
+      }
+    });
+    this.inside.clear();
+  }
+
+  /**
+   * Builds an enter or exit event at the body's current state
+   * @param type Whether the body entered or left
+   * @param id The body's ID
+   * @param body The body
+   * @returns The event
+   */
+  private event(
+    type: PhysicsWaterEventType,
+    id: number,
+    body: CANNON.Body
+  ): PhysicsWaterEvent {
+    return {
+      type,
+      waterId: this.id,
+      bodyId: id,
+      point: [body.position.x, body.position.y, body.position.z],
+      velocity: [body.velocity.x, body.velocity.y, body.velocity.z],
+    };
+  }
+
+  /**
+   * Forgets a body, e.g. when it is removed from the world
+   * @param body The body
+   */
+  forget(body: CANNON.Body): void {
+    this.inside.delete(body);
+  }
+}
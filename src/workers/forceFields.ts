@@ -0,0 +1,161 @@
+import * as CANNON from "cannon-es";
+import {
+  PhysicsExplosionOptions,
+  PhysicsFalloff,
+  PhysicsForceFieldOptions,
+  PhysicsForceFieldType,
+} from "../physics/types";
+
+/**
+ * Scales an effect by distance from its center
+ * @param falloff The falloff curve
+ * @param distance Distance from the center
+ * @param radius Radius at which the effect ends
+ * @returns A factor between 0 and 1
+ */
+function falloffFactor(
+  falloff: PhysicsFalloff,
+  distance: number,
+  radius: number
+): number {
+  if (distance >= radius) return 0;
+
+  const t = 1 - distance / radius;
+  switch (falloff) {
+    case PhysicsFalloff.LINEAR:
+      return t;
+    case PhysicsFalloff.QUADRATIC:
+      return t * t;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Checks whether an effect applies to a body
+ * @param body The body
+ * @param mask Collision groups the effect applies to
+ */
+function affects(body: CANNON.Body, mask = -1): boolean {
+  return (
+    body.type === CANNON.Body.DYNAMIC &&
+    (body.collisionFilterGroup & mask) !== 0
+  );
+}
+
+/**
+ * Checks whether a point is inside a force field's region
+ * @param field The force field
+ * @param center The region's center
+ * @param point The point to test
+ */
+function inRegion(
+  field: PhysicsForceFieldOptions,
+  center: CANNON.Vec3,
+  point: CANNON.Vec3
+): boolean {
+  if (field.radius !== undefined) {
+    return point.distanceTo(center) <= field.radius;
+  }
+  if (field.size) {
+    return (
+      Math.abs(point.x - center.x) <= field.size[0] / 2 &&
+      Math.abs(point.y - center.y) <= field.size[1] / 2 &&
+      Math.abs(point.z - center.z) <= field.size[2] / 2
+    );
+  }
+  return true;
+}
+
+/**
+ * Applies a radial impulse to every body within an explosion's radius
+ * @param bodies Bodies to consider
+ * @param options The explosion
+ */
+export function applyExplosion(
+  bodies: Iterable<CANNON.Body>,
+  options: PhysicsExplosionOptions
+): void {
+  const center = new CANNON.Vec3(...options.position);
+  const falloff = options.falloff ?? PhysicsFalloff.LINEAR;
+
+  for (const body of bodies) {
+    if (!affects(body, options.collisionFilterMask)) continue;
+
+    const offset = body.position.vsub(center);
+    const distance = offset.length();
+    const factor = falloffFactor(falloff, distance, options.radius);
+    if (factor <= 0) continue;
+
+    // Bodies at the very center are thrown straight up
+    if (distance > 1e-6) {
+      offset.scale(1 / distance, offset);
+    } else {
+      offset.set(0, 1, 0);
+    }
+    offset.y += options.upwardBias ?? 0;
+
+    body.wakeUp();
+    body.applyImpulse(offset.scale(options.strength * factor));
+  }
+}
+
+/**
+ * Applies a force field's force to every body inside its region
+ * Call once per step, before the world steps, so the solver sees the forces
+ * @param bodies Bodies to consider
+ * @param field The force field
+ * @param worldGravity The world's gravity, which gravity fields replace
+ */
+export function applyForceField(
+  bodies: Iterable<CANNON.Body>,
+  field: PhysicsForceFieldOptions,
+  worldGravity: CANNON.Vec3
+): void {
+  const center = new CANNON.Vec3(...(field.position ?? [0, 0, 0]));
+  const strength = field.strength ?? 0;
+
+  for (const body of bodies) {
+    if (!affects(body, field.collisionFilterMask)) continue;
+    if (!inRegion(field, center, body.position)) continue;
+
+    switch (field.type) {
+      case PhysicsForceFieldType.WIND: {
+        const direction = new CANNON.Vec3(...(field.direction ?? [1, 0, 0]));
+        direction.normalize();
+        body.applyForce(direction.scale(strength));
+
+        // Wind keeps things moving, so don't let them doze off inside it
+        if (strength !== 0) body.wakeUp();
+        break;
+      }
+      case PhysicsForceFieldType.ATTRACTOR: {
+        const toCenter = center.vsub(body.position);
+        const distance = toCenter.normalize();
+        if (distance < 1e-6) break;
+
+        const factor =
+          field.radius !== undefined
+            ? falloffFactor(
+                field.falloff ?? PhysicsFalloff.NONE,
+                distance,
+                field.radius
+              )
+            : 1;
+        body.applyForce(toCenter.scale(strength * factor * body.mass));
+        if (strength !== 0) body.wakeUp();
+        break;
+      }
+      case PhysicsForceFieldType.GRAVITY: {
+        // Cancel world gravity and add the region's own
+        const gravity = new CANNON.Vec3(...(field.gravity ?? [0, 0, 0]));
+        const difference = gravity.vsub(worldGravity);
+        body.applyForce(difference.scale(body.mass));
+
+        // A body asleep in the region would otherwise ignore it
+        if (!difference.isZero()) body.wakeUp();
+        break;
+      }
+    }
+  }
+}
@@ -5,6 +5,17 @@ export default defineConfig({
   base: "./",
   server: {
     open: true,
+    // Cross-origin isolation enables SharedArrayBuffer for physics transforms
+    headers: {
+      "Cross-Origin-Opener-Policy": "same-origin",
+      "Cross-Origin-Embedder-Policy": "require-corp",
+    },
+  },
+  preview: {
+    headers: {
+      "Cross-Origin-Opener-Policy": "same-origin",
+      "Cross-Origin-Embedder-Policy": "require-corp",
+    },
   },
   build: {
     outDir: "dist",